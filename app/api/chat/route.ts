@@ -1,25 +1,207 @@
-import { openai } from "@ai-sdk/openai"
-import { convertToModelMessages, streamText, type UIMessage } from "ai"
+import { convertToModelMessages, generateId, stepCountIs, streamText, type UIMessage } from "ai"
+import { z } from "zod"
+import { apiError, type ApiErrorBody } from "@/lib/api-errors"
+import { createAssistantTools, isValidTimeZone } from "@/lib/assistant-tools"
+import { MAX_CHAT_BODY_BYTES, chatRequestSchema, type ChatRequestBody, type ChatRequestMessage } from "@/lib/chat-request"
+import { createSessionId, isValidSessionId, trimToTokenBudget, truncateLastReply } from "@/lib/conversation"
+import { getConversationStore } from "@/lib/conversation-store"
+import { isLanguageCode } from "@/lib/languages"
+import { logger } from "@/lib/logger"
+import { getMetrics } from "@/lib/metrics"
+import { resolveChatModel } from "@/lib/model-provider"
+import { getPersonaInstructions } from "@/lib/persona-instructions"
+import { DEFAULT_PERSONA_ID, getPersona, isPersonaId } from "@/lib/personas"
+import { getChatRateLimiter, getClientKey } from "@/lib/rate-limit"
 
 export const maxDuration = 30
 
+// Budget for the history sent to the model; older turns stay in the store but are not sent
+const HISTORY_TOKEN_BUDGET = 2000
+
+// Tool calls plus the spoken answer; enough for e.g. "convert this, then set a timer"
+const MAX_STEPS = 5
+
+function toUIMessage({ id, role, content, parts }: ChatRequestMessage): UIMessage {
+  return { id: id ?? generateId(), role, parts: parts ?? [{ type: "text", text: content ?? "" }] }
+}
+
+function payloadTooLarge(issues?: ApiErrorBody["issues"]) {
+  return apiError(413, { error: "Request exceeds the chat size limits", code: "payload_too_large", issues })
+}
+
+/** Reads and validates the body, or returns the error response to send instead. */
+async function readChatRequest(req: Request): Promise<ChatRequestBody | Response> {
+  // Refuse oversized bodies before buffering them when the client says how big they are
+  if (Number(req.headers.get("content-length")) > MAX_CHAT_BODY_BYTES) {
+    return payloadTooLarge()
+  }
+
+  const raw = await req.text()
+  if (new TextEncoder().encode(raw).length > MAX_CHAT_BODY_BYTES) {
+    return payloadTooLarge()
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(raw)
+  } catch {
+    return apiError(400, { error: "Request body must be JSON", code: "invalid_request" })
+  }
+
+  const result = chatRequestSchema.safeParse(json)
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }))
+    if (result.error.issues.every((issue) => issue.code === z.ZodIssueCode.too_big)) {
+      return payloadTooLarge(issues)
+    }
+    return apiError(400, { error: "Invalid chat request", code: "invalid_request", issues })
+  }
+
+  return result.data
+}
+
+// Ids from an upstream proxy are kept so one request can be followed through both logs
+function readRequestId(req: Request) {
+  const id = req.headers.get("x-request-id")
+  return id && /^[\w.:-]{1,128}$/.test(id) ? id : generateId()
+}
+
 export async function POST(req: Request) {
+  const receivedAt = performance.now()
+  const requestId = readRequestId(req)
+  const metrics = getMetrics()
+  const elapsedMs = () => Math.round(performance.now() - receivedAt)
+
+  const refuse = (response: Response) => {
+    metrics.chatRequests.inc({ outcome: `http_${response.status}` })
+    logger.warn("chat.refused", { requestId, status: response.status, durationMs: elapsedMs() })
+    response.headers.set("X-Request-Id", requestId)
+    return response
+  }
+
+  const limit = await getChatRateLimiter().consume(getClientKey(req))
+  if (!limit.allowed) {
+    const retryAfter = Math.ceil(limit.retryAfterMs / 1000)
+    return refuse(
+      apiError(429, { error: "Too many requests", code: "rate_limited", retryAfter }, { "Retry-After": String(retryAfter) }),
+    )
+  }
+
   try {
-    const { messages }: { messages: UIMessage[] } = await req.json()
+    const body = await readChatRequest(req)
+    if (body instanceof Response) return refuse(body)
 
-    const prompt = convertToModelMessages(messages)
+    const {
+      sessionId: requestedSessionId,
+      persona: requestedPersona,
+      language: requestedLanguage,
+      deviceId,
+      timeZone,
+      messages,
+      context,
+      interruption,
+    } = body
+
+    const sessionId = isValidSessionId(requestedSessionId) ? requestedSessionId : createSessionId()
+    const persona = isPersonaId(requestedPersona) ? requestedPersona : DEFAULT_PERSONA_ID
+    const language = isLanguageCode(requestedLanguage) ? requestedLanguage : getPersona(persona).language
+    const store = getConversationStore()
+
+    // The server owns the history, so clients only contribute the new user turn(s)
+    const newMessages = messages.map(toUIMessage).filter((message) => message.role === "user")
+    let stored = await store.load(sessionId)
+    if (interruption) {
+      stored = truncateLastReply(stored, interruption)
+    }
+    const history = [...stored, ...newMessages]
+
+    const prompt = convertToModelMessages(trimToTokenBudget(history, HISTORY_TOKEN_BUDGET))
+    // The system prompt always comes from the server-side persona; a request can only add page context
+    const { system, model: modelOverrides } = getPersonaInstructions(persona, language, context)
+    const { model, parameters } = resolveChatModel(persona, modelOverrides)
+    logger.info("chat.request", {
+      requestId,
+      sessionId,
+      persona,
+      language,
+      messages: history.length,
+      hasContext: Boolean(context),
+    })
 
+    let firstTokenMs: number | undefined
     const result = streamText({
-      model: openai("gpt-4o-mini"),
+      model,
+      system,
       messages: prompt,
+      tools: createAssistantTools({
+        ownerId: isValidSessionId(deviceId) ? deviceId : sessionId,
+        timeZone: isValidTimeZone(timeZone) ? timeZone : undefined,
+        language,
+      }),
+      stopWhen: stepCountIs(MAX_STEPS),
       abortSignal: req.signal,
-      maxTokens: 150,
-      temperature: 0.7,
+      ...parameters,
+      onChunk: ({ chunk }) => {
+        if (chunk.type !== "text-delta" || firstTokenMs !== undefined) return
+        firstTokenMs = elapsedMs()
+        metrics.chatFirstToken.observe(firstTokenMs / 1000)
+      },
+      onFinish: ({ totalUsage, finishReason, steps }) => {
+        const durationMs = elapsedMs()
+        metrics.chatRequests.inc({ outcome: "ok" })
+        metrics.chatDuration.observe(durationMs / 1000)
+        metrics.chatTokens.inc({ type: "input" }, totalUsage.inputTokens ?? 0)
+        metrics.chatTokens.inc({ type: "output" }, totalUsage.outputTokens ?? 0)
+        logger.info("chat.finish", {
+          requestId,
+          sessionId,
+          finishReason,
+          steps: steps.length,
+          firstTokenMs,
+          durationMs,
+          inputTokens: totalUsage.inputTokens,
+          outputTokens: totalUsage.outputTokens,
+          totalTokens: totalUsage.totalTokens,
+        })
+      },
+      onAbort: ({ steps }) => {
+        metrics.chatRequests.inc({ outcome: "aborted" })
+        logger.info("chat.abort", { requestId, sessionId, steps: steps.length, firstTokenMs, durationMs: elapsedMs() })
+      },
+      onError: ({ error }) => {
+        metrics.chatRequests.inc({ outcome: "error" })
+        logger.error("chat.stream_error", { requestId, sessionId, durationMs: elapsedMs(), error })
+      },
     })
 
-    return result.toUIMessageStreamResponse()
+    return result.toUIMessageStreamResponse({
+      headers: { "X-Session-Id": sessionId, "X-Request-Id": requestId },
+      originalMessages: history,
+      // Named in the stream's start part, so the client can refer to the reply if it interrupts it
+      generateMessageId: generateId,
+      onFinish: async ({ messages }) => {
+        await store.save(sessionId, messages)
+      },
+    })
+  } catch (error) {
+    metrics.chatRequests.inc({ outcome: "error" })
+    logger.error("chat.error", { requestId, durationMs: elapsedMs(), error })
+    return apiError(500, { error: "Failed to process chat request", code: "internal_error" }, { "X-Request-Id": requestId })
+  }
+}
+
+export async function DELETE(req: Request) {
+  const sessionId = new URL(req.url).searchParams.get("sessionId")
+
+  if (!isValidSessionId(sessionId)) {
+    return Response.json({ error: "Invalid session id" }, { status: 400 })
+  }
+
+  try {
+    await getConversationStore().clear(sessionId)
+    return new Response(null, { status: 204 })
   } catch (error) {
-    console.error("Chat API error:", error)
-    return Response.json({ error: "Failed to process chat request" }, { status: 500 })
+    logger.error("chat.clear_error", { sessionId, error })
+    return Response.json({ error: "Failed to clear conversation" }, { status: 500 })
   }
 }
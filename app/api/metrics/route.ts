@@ -0,0 +1,74 @@
+import { apiError } from "@/lib/api-errors"
+import { logger } from "@/lib/logger"
+import { getMetrics, renderMetrics } from "@/lib/metrics"
+import { getClientKey, getMetricsRateLimiter } from "@/lib/rate-limit"
+import { turnPhases, turnTimingSchema, type TurnPhase } from "@/lib/turn-timing"
+
+// A timing report is around 200 bytes
+const MAX_REPORT_BYTES = 4 * 1024
+
+/**
+ * Prometheus scrape endpoint, behind `Authorization: Bearer <METRICS_TOKEN>`. Without a token it
+ * is open in development and disabled in production.
+ */
+export async function GET(req: Request) {
+  const token = process.env.METRICS_TOKEN
+  if (!token && process.env.NODE_ENV === "production") {
+    return new Response("Not found\n", { status: 404 })
+  }
+  if (token && req.headers.get("authorization") !== `Bearer ${token}`) {
+    return new Response("Unauthorized\n", { status: 401, headers: { "WWW-Authenticate": "Bearer" } })
+  }
+
+  return new Response(renderMetrics(), {
+    headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8", "Cache-Control": "no-store" },
+  })
+}
+
+/** Receives the timing of a finished voice turn from the client. */
+export async function POST(req: Request) {
+  const limit = await getMetricsRateLimiter().consume(getClientKey(req))
+  if (!limit.allowed) {
+    const retryAfter = Math.ceil(limit.retryAfterMs / 1000)
+    return apiError(
+      429,
+      { error: "Too many requests", code: "rate_limited", retryAfter },
+      { "Retry-After": String(retryAfter) },
+    )
+  }
+
+  // Refuse oversized reports before buffering them when the client says how big they are
+  if (Number(req.headers.get("content-length")) > MAX_REPORT_BYTES) {
+    return apiError(413, { error: "Timing report is too large", code: "payload_too_large" })
+  }
+
+  const raw = await req.text()
+  if (new TextEncoder().encode(raw).length > MAX_REPORT_BYTES) {
+    return apiError(413, { error: "Timing report is too large", code: "payload_too_large" })
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(raw)
+  } catch {
+    return apiError(400, { error: "Request body must be JSON", code: "invalid_request" })
+  }
+
+  const result = turnTimingSchema.safeParse(json)
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }))
+    return apiError(400, { error: "Invalid timing report", code: "invalid_request", issues })
+  }
+
+  const timing = result.data
+  const phases = turnPhases(timing)
+  const { turnPhase } = getMetrics()
+  for (const [phase, ms] of Object.entries(phases) as [TurnPhase, number][]) {
+    // An interrupted reply's playback is however long the user let it run, not a latency
+    if (phase === "playback" && timing.interrupted) continue
+    turnPhase.observe(ms / 1000, { phase, input: timing.input })
+  }
+
+  logger.info("turn.timing", { requestId: timing.requestId, input: timing.input, interrupted: timing.interrupted, phasesMs: phases })
+  return new Response(null, { status: 204 })
+}
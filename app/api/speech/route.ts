@@ -0,0 +1,68 @@
+import { z } from "zod"
+import { apiError, type ApiErrorBody } from "@/lib/api-errors"
+import { getClientKey, getSpeechRateLimiter } from "@/lib/rate-limit"
+import { MAX_SPEECH_BODY_BYTES, speechRequestSchema, type SpeechRequestBody } from "@/lib/speech-request"
+import { getSpeechProvider } from "@/lib/speech-provider"
+
+export const maxDuration = 30
+
+function payloadTooLarge(issues?: ApiErrorBody["issues"]) {
+  return apiError(413, { error: "Request exceeds the speech size limits", code: "payload_too_large", issues })
+}
+
+/** Reads and validates the body, or returns the error response to send instead. */
+async function readSpeechRequest(req: Request): Promise<SpeechRequestBody | Response> {
+  // Refuse oversized bodies before buffering them when the client says how big they are
+  if (Number(req.headers.get("content-length")) > MAX_SPEECH_BODY_BYTES) {
+    return payloadTooLarge()
+  }
+
+  const raw = await req.text()
+  if (new TextEncoder().encode(raw).length > MAX_SPEECH_BODY_BYTES) {
+    return payloadTooLarge()
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(raw)
+  } catch {
+    return apiError(400, { error: "Request body must be JSON", code: "invalid_request" })
+  }
+
+  const result = speechRequestSchema.safeParse(json)
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }))
+    if (result.error.issues.every((issue) => issue.code === z.ZodIssueCode.too_big)) {
+      return payloadTooLarge(issues)
+    }
+    return apiError(400, { error: "Invalid speech request", code: "invalid_request", issues })
+  }
+
+  return result.data
+}
+
+export async function POST(req: Request) {
+  const limit = await getSpeechRateLimiter().consume(getClientKey(req))
+  if (!limit.allowed) {
+    const retryAfter = Math.ceil(limit.retryAfterMs / 1000)
+    return apiError(
+      429,
+      { error: "Too many requests", code: "rate_limited", retryAfter },
+      { "Retry-After": String(retryAfter) },
+    )
+  }
+
+  try {
+    const body = await readSpeechRequest(req)
+    if (body instanceof Response) return body
+
+    const { audio, mimeType } = await getSpeechProvider().synthesize({ ...body, abortSignal: req.signal })
+
+    return new Response(audio, {
+      headers: { "Content-Type": mimeType, "Cache-Control": "no-store" },
+    })
+  } catch (error) {
+    console.error("Speech API error:", error)
+    return apiError(500, { error: "Failed to synthesize speech", code: "internal_error" })
+  }
+}
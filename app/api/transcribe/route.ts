@@ -0,0 +1,65 @@
+import { apiError } from "@/lib/api-errors"
+import { getClientKey, getTranscribeRateLimiter } from "@/lib/rate-limit"
+import { SUPPORTED_AUDIO_TYPES, getTranscriptionProvider } from "@/lib/transcription-provider"
+
+export const maxDuration = 30
+
+// About a minute of Opus audio; utterances are far shorter
+const MAX_AUDIO_BYTES = 5 * 1024 * 1024
+// Multipart boundaries, headers and the language field on top of the audio
+const MAX_FORM_OVERHEAD_BYTES = 16 * 1024
+
+export async function POST(req: Request) {
+  const limit = await getTranscribeRateLimiter().consume(getClientKey(req))
+  if (!limit.allowed) {
+    const retryAfter = Math.ceil(limit.retryAfterMs / 1000)
+    return apiError(
+      429,
+      { error: "Too many requests", code: "rate_limited", retryAfter },
+      { "Retry-After": String(retryAfter) },
+    )
+  }
+
+  // Checked before the body is read, so an oversized upload is never buffered
+  if (Number(req.headers.get("content-length")) > MAX_AUDIO_BYTES + MAX_FORM_OVERHEAD_BYTES) {
+    return apiError(413, { error: "Audio is too large", code: "payload_too_large" })
+  }
+
+  let form: FormData
+  try {
+    form = await req.formData()
+  } catch {
+    return apiError(400, { error: "Request body must be multipart form data", code: "invalid_request" })
+  }
+
+  try {
+    const audio = form.get("audio")
+    const language = form.get("language")
+
+    if (!(audio instanceof Blob) || audio.size === 0) {
+      return apiError(400, { error: "Missing audio", code: "invalid_request" })
+    }
+
+    if (audio.size > MAX_AUDIO_BYTES) {
+      return apiError(413, { error: "Audio is too large", code: "payload_too_large" })
+    }
+
+    // MediaRecorder reports e.g. "audio/webm;codecs=opus"
+    const mimeType = audio.type.split(";")[0].trim().toLowerCase()
+    if (!SUPPORTED_AUDIO_TYPES.includes(mimeType)) {
+      return apiError(415, { error: `Unsupported audio type "${audio.type}"`, code: "invalid_request" })
+    }
+
+    const { text } = await getTranscriptionProvider().transcribe({
+      audio: new Uint8Array(await audio.arrayBuffer()),
+      mimeType,
+      language: typeof language === "string" ? language : undefined,
+      abortSignal: req.signal,
+    })
+
+    return Response.json({ text })
+  } catch (error) {
+    console.error("Transcribe API error:", error)
+    return apiError(500, { error: "Failed to transcribe audio", code: "internal_error" })
+  }
+}
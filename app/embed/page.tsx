@@ -0,0 +1,36 @@
+import type { Metadata } from "next"
+import { GawinWidget } from "@/components/gawin-widget"
+import { parseOrigin } from "@/lib/embed-messages"
+import { isLanguageCode } from "@/lib/languages"
+
+export const metadata: Metadata = {
+  title: "Gawin",
+}
+
+type SearchParams = Record<string, string | string[] | undefined>
+
+function readParam(searchParams: SearchParams, name: string) {
+  const value = searchParams[name]
+  return Array.isArray(value) ? value[0] : value
+}
+
+/**
+ * The embeddable widget, loaded in an iframe by `public/embed.js`. Takes `persona`, `language`,
+ * `position` (`left` or `right`) and `origin`, the host page's origin for `postMessage`.
+ */
+export default function EmbedPage({ searchParams }: { searchParams: SearchParams }) {
+  const language = readParam(searchParams, "language")
+
+  return (
+    <>
+      {/* Only the widget should cover the host page, not this page's background */}
+      <style>{"html, body { background: transparent; color-scheme: normal; }"}</style>
+      <GawinWidget
+        personaId={readParam(searchParams, "persona")}
+        language={isLanguageCode(language) ? language : undefined}
+        hostOrigin={parseOrigin(readParam(searchParams, "origin"))}
+        side={readParam(searchParams, "position") === "left" ? "left" : "right"}
+      />
+    </>
+  )
+}
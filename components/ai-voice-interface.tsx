@@ -1,183 +1,49 @@
 "use client"
 
-import { useState, useRef, useEffect } from "react"
+import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { AIVoiceSphere } from "./ai-voice-sphere"
-import { Mic, MicOff, Volume2, VolumeX } from "lucide-react"
+import { TranscriptPanel } from "./transcript-panel"
+import { History, Mic, MicOff, MessageSquarePlus, Volume2, VolumeX } from "lucide-react"
+import { useTranscript } from "@/hooks/use-transcript"
+import { useVoiceSession } from "@/hooks/use-voice-session"
+import type { VoiceState } from "@/lib/voice-state-machine"
 import { cn } from "@/lib/utils"
 
-type VoiceState = "idle" | "listening" | "processing" | "speaking"
-
 interface AIVoiceInterfaceProps {
   onVoiceInput?: (text: string) => void
   onStateChange?: (state: VoiceState) => void
   className?: string
 }
 
-declare global {
-  interface Window {
-    SpeechRecognition: any
-    webkitSpeechRecognition: any
-  }
-}
-
 export function AIVoiceInterface({ onVoiceInput, onStateChange, className }: AIVoiceInterfaceProps) {
-  const [state, setState] = useState<VoiceState>("idle")
-  const [isListening, setIsListening] = useState(false)
-  const [transcript, setTranscript] = useState("")
-  const [response, setResponse] = useState("")
   const [isMuted, setIsMuted] = useState(false)
-  const recognitionRef = useRef<any>(null)
-  const synthRef = useRef<SpeechSynthesis | null>(null)
-
-  useEffect(() => {
-    if (typeof window !== "undefined") {
-      const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition
-
-      if (SpeechRecognition) {
-        recognitionRef.current = new SpeechRecognition()
-        recognitionRef.current.continuous = false
-        recognitionRef.current.interimResults = true
-        recognitionRef.current.lang = "en-US"
-
-        recognitionRef.current.onstart = () => {
-          setState("listening")
-          setIsListening(true)
-        }
-
-        recognitionRef.current.onresult = (event: any) => {
-          const current = event.resultIndex
-          const transcript = event.results[current][0].transcript
-          setTranscript(transcript)
-
-          if (event.results[current].isFinal) {
-            handleVoiceInput(transcript)
-          }
-        }
-
-        recognitionRef.current.onend = () => {
-          setIsListening(false)
-          if (state === "listening") {
-            setState("idle")
-          }
-        }
-
-        recognitionRef.current.onerror = (event: any) => {
-          console.error("Speech recognition error:", event.error)
-          setIsListening(false)
-          setState("idle")
-        }
-      }
-
-      // Initialize speech synthesis
-      synthRef.current = window.speechSynthesis
-    }
-
-    return () => {
-      if (recognitionRef.current) {
-        recognitionRef.current.stop()
-      }
-      if (synthRef.current) {
-        synthRef.current.cancel()
-      }
-    }
-  }, [])
-
-  useEffect(() => {
-    onStateChange?.(state)
-  }, [state, onStateChange])
-
-  const handleVoiceInput = async (text: string) => {
-    setState("processing")
-    onVoiceInput?.(text)
-
-    try {
-      const response = await fetch("/api/chat", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          messages: [{ role: "user", content: text }],
-        }),
-      })
-
-      if (response.ok) {
-        const reader = response.body?.getReader()
-        const decoder = new TextDecoder()
-        let aiResponse = ""
-
-        if (reader) {
-          while (true) {
-            const { done, value } = await reader.read()
-            if (done) break
-
-            const chunk = decoder.decode(value)
-            const lines = chunk.split("\n")
-
-            for (const line of lines) {
-              if (line.startsWith("0:")) {
-                try {
-                  const data = JSON.parse(line.slice(2))
-                  if (data.content) {
-                    aiResponse += data.content
-                  }
-                } catch (e) {
-                  // Skip invalid JSON
-                }
-              }
-            }
-          }
-        }
-
-        const finalResponse = aiResponse || "I heard you, but I'm not sure how to respond to that."
-        setResponse(finalResponse)
-
-        if (!isMuted && synthRef.current) {
-          setState("speaking")
-          const utterance = new SpeechSynthesisUtterance(finalResponse)
-          utterance.onend = () => setState("idle")
-          synthRef.current.speak(utterance)
-        } else {
-          setState("idle")
-        }
-      } else {
-        throw new Error("Failed to get AI response")
-      }
-    } catch (error) {
-      console.error("Error processing voice input:", error)
-      const fallbackResponse = "I'm having trouble processing that right now. Please try again."
-      setResponse(fallbackResponse)
-
-      if (!isMuted && synthRef.current) {
-        setState("speaking")
-        const utterance = new SpeechSynthesisUtterance(fallbackResponse)
-        utterance.onend = () => setState("idle")
-        synthRef.current.speak(utterance)
-      } else {
-        setState("idle")
-      }
-    }
-  }
-
-  const startListening = () => {
-    if (recognitionRef.current && !isListening) {
-      setTranscript("")
-      recognitionRef.current.start()
-    }
-  }
-
-  const stopListening = () => {
-    if (recognitionRef.current && isListening) {
-      recognitionRef.current.stop()
-    }
-  }
+  const [showHistory, setShowHistory] = useState(false)
+  const history = useTranscript()
+  const {
+    state,
+    isListening,
+    transcript,
+    response,
+    startListening,
+    stopListening,
+    interrupt,
+    cancelSpeech,
+    newConversation,
+    activity,
+  } = useVoiceSession({
+    interimResults: true,
+    muted: isMuted,
+    fallbackResponse: "I'm having trouble processing that right now. Please try again.",
+    onTranscript: onVoiceInput,
+    onTurn: history.addTurn,
+    onStateChange,
+  })
 
   const toggleMute = () => {
     setIsMuted(!isMuted)
-    if (synthRef.current && synthRef.current.speaking) {
-      synthRef.current.cancel()
-      setState("idle")
-    }
+    cancelSpeech()
   }
 
   const getStateMessage = () => {
@@ -185,7 +51,7 @@ export function AIVoiceInterface({ onVoiceInput, onStateChange, className }: AIV
       case "listening":
         return "Listening..."
       case "processing":
-        return "Processing..."
+        return activity ? `${activity}...` : "Processing..."
       case "speaking":
         return "Speaking..."
       default:
@@ -230,8 +96,8 @@ export function AIVoiceInterface({ onVoiceInput, onStateChange, className }: AIV
         {/* Controls */}
         <div className="flex items-center space-x-4">
           <Button
-            onClick={isListening ? stopListening : startListening}
-            disabled={state === "processing" || state === "speaking"}
+            onClick={isListening ? stopListening : state === "speaking" ? interrupt : startListening}
+            disabled={state === "processing"}
             size="lg"
             className={cn(
               "rounded-full w-16 h-16 transition-all duration-200",
@@ -249,6 +115,38 @@ export function AIVoiceInterface({ onVoiceInput, onStateChange, className }: AIV
           >
             {isMuted ? <VolumeX className="w-6 h-6" /> : <Volume2 className="w-6 h-6" />}
           </Button>
+
+          <Button
+            onClick={newConversation}
+            disabled={state === "processing"}
+            variant="outline"
+            size="lg"
+            aria-label="New conversation"
+            className="rounded-full w-16 h-16 bg-gray-800/50 border-gray-600 text-white hover:bg-gray-700/50"
+          >
+            <MessageSquarePlus className="w-6 h-6" />
+          </Button>
+        </div>
+
+        {/* Conversation History */}
+        <div className="w-full max-w-md">
+          <button
+            type="button"
+            onClick={() => setShowHistory(!showHistory)}
+            aria-expanded={showHistory}
+            className="flex items-center space-x-2 text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            <History className="w-4 h-4" />
+            <span>{showHistory ? "Hide conversation history" : "Show conversation history"}</span>
+          </button>
+          {showHistory && (
+            <TranscriptPanel
+              turns={history.turns}
+              assistantName="AI"
+              onClear={history.clear}
+              className="mt-2 h-80 bg-gray-800/70 rounded-lg border border-gray-600"
+            />
+          )}
         </div>
 
         {/* Instructions */}
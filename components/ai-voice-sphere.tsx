@@ -2,8 +2,7 @@
 
 import { useEffect, useState } from "react"
 import { cn } from "@/lib/utils"
-
-type VoiceState = "idle" | "listening" | "processing" | "speaking"
+import type { VoiceState } from "@/lib/voice-state-machine"
 
 interface AIVoiceSphereProps {
   state: VoiceState
@@ -1,19 +1,52 @@
 "use client"
 
-import { useRef, useMemo } from "react"
+import { Component, useEffect, useRef, useMemo, useState, type ReactNode } from "react"
 import { Canvas, useFrame } from "@react-three/fiber"
-import { Environment, MeshTransmissionMaterial, RoundedBox } from "@react-three/drei"
+import { Environment, MeshTransmissionMaterial, PerformanceMonitor, RoundedBox } from "@react-three/drei"
 import type * as THREE from "three"
-
-type VoiceState = "idle" | "listening" | "processing" | "speaking"
+import { AudioFeatureSmoother, type AudioFeatureSource } from "@/lib/audio-features"
+import { getPersona, type PersonaColors } from "@/lib/personas"
+import {
+  QUALITY_SETTINGS,
+  detectQualityTier,
+  isWebGLAvailable,
+  readDeviceCapabilities,
+  stepQualityTier,
+  type QualitySettings,
+  type QualityTier,
+} from "@/lib/render-quality"
+import { cn } from "@/lib/utils"
+import type { VoiceState } from "@/lib/voice-state-machine"
 
 interface IceCubeProps {
   state: VoiceState
+  /** Live level and band data from the mic or the assistant's playback, read every frame */
+  features?: AudioFeatureSource
+  /** Tint for each state, usually the active persona's color scheme */
+  colors?: PersonaColors
   onClick?: () => void
+  /** Accessible name for the cube, which acts as the talk button */
+  label?: string
+  /** Id of an element describing how to use the cube from the keyboard */
+  describedBy?: string
+  /** Called when WebGL can't be created or the context is lost, so a simpler visual can take over */
+  onWebGLUnavailable?: () => void
+  /** Fills the screen unless sized otherwise */
+  className?: string
+}
+
+// Distortion at rest, before mid-band energy ripples the glass
+const BASE_DISTORTION = 0.2
+
+// Clicks are handled by the wrapping button element, so the mesh takes no handler of its own
+interface IceCubeMeshProps extends Pick<IceCubeProps, "state" | "features" | "colors"> {
+  quality: QualitySettings
 }
 
-function IceCube({ state, onClick }: IceCubeProps) {
+function IceCube({ state, features, colors = getPersona().colors, quality }: IceCubeMeshProps) {
   const meshRef = useRef<THREE.Mesh>(null)
+  const materialRef = useRef<THREE.MeshPhysicalMaterial & { distortion: number }>(null)
+  const smoother = useMemo(() => new AudioFeatureSmoother(), [])
 
   // Rotation speed based on state
   const rotationSpeed = useMemo(() => {
@@ -30,24 +63,22 @@ function IceCube({ state, onClick }: IceCubeProps) {
   }, [state])
 
   // Color based on state
-  const color = useMemo(() => {
-    switch (state) {
-      case "listening":
-        return "#60a5fa" // blue with subtle cyan tint
-      case "processing":
-        return "#f59e0b" // amber with subtle orange tint
-      case "speaking":
-        return "#10b981" // emerald with subtle teal tint
-      default:
-        return "#e5e7eb" // gray with subtle rainbow reflection
+  const color = colors[state]
+
+  useFrame(({ clock }, delta) => {
+    const { level, low, mid, high } = features ? smoother.update(features.current, delta) : smoother.value
+
+    if (materialRef.current) {
+      materialRef.current.distortion = BASE_DISTORTION + mid * 0.6
+      materialRef.current.emissiveIntensity = level * 0.5 + high * 0.3
     }
-  }, [state])
 
-  useFrame((state) => {
     if (meshRef.current) {
-      const breathingScale = 1 + Math.sin(state.clock.elapsedTime * 2) * 0.05
+      const breathingScale = 1 + Math.sin(clock.elapsedTime * 2) * 0.05
       const stateScale = state === "listening" ? 1.1 : state === "speaking" ? 1.05 : 1
-      meshRef.current.scale.setScalar(breathingScale * stateScale)
+      // Bass pushes the cube outward more than overall loudness does
+      const levelScale = 1 + level * 0.2 + low * 0.25
+      meshRef.current.scale.setScalar(breathingScale * stateScale * levelScale)
 
       // Existing rotation animation
       meshRef.current.rotation.x += rotationSpeed
@@ -57,19 +88,22 @@ function IceCube({ state, onClick }: IceCubeProps) {
   })
 
   return (
-    <mesh ref={meshRef} onClick={onClick}>
-      <RoundedBox args={[2, 2, 2]} radius={0.8} smoothness={4}>
+    <mesh ref={meshRef}>
+      <RoundedBox args={[2, 2, 2]} radius={0.8} smoothness={quality.smoothness}>
         <MeshTransmissionMaterial
+          ref={materialRef}
           color={color}
+          emissive={color}
+          emissiveIntensity={0}
           thickness={0.5}
           roughness={0.05}
           transmission={0.95}
           ior={1.33}
           chromaticAberration={0.08}
-          backside={true}
-          samples={32}
-          resolution={1024}
-          distortion={0.2}
+          backside={quality.backside}
+          samples={quality.samples}
+          resolution={quality.resolution}
+          distortion={BASE_DISTORTION}
           distortionScale={0.3}
           temporalDistortion={0.15}
           clearcoat={1.0}
@@ -80,15 +114,104 @@ function IceCube({ state, onClick }: IceCubeProps) {
   )
 }
 
-export function GawinIceCube({ state, onClick }: IceCubeProps) {
+/** Catches WebGL renderer creation failures, which r3f rethrows from inside the Canvas. */
+class WebGLErrorBoundary extends Component<{ onError?: () => void; children?: ReactNode }, { failed: boolean }> {
+  state = { failed: false }
+
+  static getDerivedStateFromError() {
+    return { failed: true }
+  }
+
+  componentDidCatch(error: Error) {
+    console.error("WebGL rendering failed:", error)
+    this.props.onError?.()
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children
+  }
+}
+
+// Frame-rate bounds for the performance monitor: drop a tier below 70% of the display's
+// refresh rate, try the next one up when holding 95%
+const fpsBounds = (refreshRate: number): [number, number] => [refreshRate * 0.7, refreshRate * 0.95]
+
+export function GawinIceCube({
+  state,
+  features,
+  colors,
+  onClick,
+  label = "Talk to Gawin",
+  describedBy,
+  onWebGLUnavailable,
+  className,
+}: IceCubeProps) {
+  // Chosen on the client from device capabilities, then adjusted by the measured frame rate
+  const [tier, setTier] = useState<QualityTier | null>(null)
+  const lastStepRef = useRef(0)
+  const unavailableRef = useRef(onWebGLUnavailable)
+  unavailableRef.current = onWebGLUnavailable
+
+  useEffect(() => {
+    if (!isWebGLAvailable()) {
+      unavailableRef.current?.()
+      return
+    }
+    setTier(detectQualityTier(readDeviceCapabilities()))
+  }, [])
+
+  const step = (steps: number) => {
+    lastStepRef.current = steps
+    setTier((current) => current && stepQualityTier(current, steps))
+  }
+
+  // Enter acts like a click; Space is left to push-to-talk
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault()
+      onClick?.()
+    }
+  }
+
   return (
-    <div className="w-full h-screen cursor-pointer" onClick={onClick}>
-      <Canvas camera={{ position: [0, 0, 5], fov: 50 }}>
-        <ambientLight intensity={0.5} />
-        <directionalLight position={[10, 10, 5]} intensity={1} />
-        <Environment preset="studio" />
-        <IceCube state={state} onClick={onClick} />
-      </Canvas>
+    <div
+      role="button"
+      tabIndex={0}
+      aria-label={label}
+      aria-describedby={describedBy}
+      data-push-to-talk
+      className={cn(
+        "w-full h-screen cursor-pointer outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-white/40",
+        className,
+      )}
+      onClick={onClick}
+      onKeyDown={handleKeyDown}
+    >
+      {tier && (
+        <WebGLErrorBoundary onError={() => unavailableRef.current?.()}>
+          <Canvas
+            camera={{ position: [0, 0, 5], fov: 50 }}
+            dpr={[1, QUALITY_SETTINGS[tier].dpr]}
+            onCreated={({ gl }) => {
+              gl.domElement.addEventListener("webglcontextlost", () => unavailableRef.current?.(), { once: true })
+            }}
+          >
+            <PerformanceMonitor
+              bounds={fpsBounds}
+              flipflops={4}
+              onDecline={() => step(-1)}
+              onIncline={() => step(1)}
+              // Stuck flipping between two tiers: settle on the lower one
+              onFallback={() => lastStepRef.current > 0 && step(-1)}
+            >
+              <ambientLight intensity={0.5} />
+              <directionalLight position={[10, 10, 5]} intensity={1} />
+              <Environment preset="studio" />
+              <IceCube state={state} features={features} colors={colors} quality={QUALITY_SETTINGS[tier]} />
+            </PerformanceMonitor>
+          </Canvas>
+        </WebGLErrorBoundary>
+      )}
     </div>
   )
 }
@@ -1,33 +1,249 @@
 "use client"
 
 import { useState, useRef, useEffect } from "react"
+import {
+  Captions,
+  CaptionsOff,
+  Ear,
+  EarOff,
+  History,
+  MessageSquarePlus,
+  Music,
+  Repeat,
+  Volume2,
+  VolumeX,
+  WifiOff,
+} from "lucide-react"
+import { AIVoiceSphere } from "./ai-voice-sphere"
 import { GawinIceCube } from "./gawin-ice-cube"
+import { SpectrumVisualizer } from "./spectrum-visualizer"
+import { TextMessageInput } from "./text-message-input"
+import { TranscriptPanel } from "./transcript-panel"
+import { useOfflineMode } from "@/hooks/use-offline-mode"
+import { usePushToTalk } from "@/hooks/use-push-to-talk"
+import { useReducedMotion } from "@/hooks/use-reduced-motion"
+import { useSpeechEngines } from "@/hooks/use-speech-engines"
+import { useTranscript } from "@/hooks/use-transcript"
+import { useVoiceCommands } from "@/hooks/use-voice-commands"
+import { useVoiceSession } from "@/hooks/use-voice-session"
+import { useWakeWord } from "@/hooks/use-wake-word"
+import { AudioClassifier } from "@/lib/audio-classifier"
+import { SILENT_FEATURES, extractAudioFeatures, type AudioFeatures } from "@/lib/audio-features"
+import { AudioOutput } from "@/lib/audio-output"
+import { BargeInDetector } from "@/lib/barge-in"
+import { LANGUAGES, isLanguageCode, type LanguageCode } from "@/lib/languages"
+import { PERSONAS, getPersona, isPersonaId } from "@/lib/personas"
+import { cn } from "@/lib/utils"
+import { VoiceActivityDetector, measureVoiceFrame } from "@/lib/voice-activity"
+import { SPEECH_RATE_RANGE, VOLUME_RANGE } from "@/lib/voice-commands"
+import type { VoiceState } from "@/lib/voice-state-machine"
+
+const WAKE_WORD_STORAGE_KEY = "gawin:wake-word"
+const PERSONA_STORAGE_KEY = "gawin:persona"
+const LANGUAGE_STORAGE_KEY = "gawin:language"
+const CONTINUOUS_STORAGE_KEY = "gawin:continuous"
+const CAPTIONS_STORAGE_KEY = "gawin:captions"
+const MUTED_STORAGE_KEY = "gawin:muted"
+const SPEECH_RATE_STORAGE_KEY = "gawin:speech-rate"
+const VOLUME_STORAGE_KEY = "gawin:volume"
+const SING_ALONG_STORAGE_KEY = "gawin:sing-along"
+
+// Sent as background with a sing-along turn, whose "question" is whatever lyrics were heard
+const SING_ALONG_CONTEXT =
+  "Sing-along mode: music was playing, and the user's message is the lyrics heard over it, possibly partial or misheard. Say which song it is if you can tell, and sing the next line or two with them."
+
+// Stored numbers outside the range (or not numbers at all) fall back to the default
+function readStoredNumber(key: string, { min, max }: { min: number; max: number }, fallback: number) {
+  const value = Number(localStorage.getItem(key))
+  return localStorage.getItem(key) !== null && value >= min && value <= max ? value : fallback
+}
 
-type VoiceState = "idle" | "listening" | "processing" | "speaking"
-
-declare global {
-  interface Window {
-    SpeechRecognition: any
-    webkitSpeechRecognition: any
-  }
+const STATE_ANNOUNCEMENTS: Record<VoiceState, string> = {
+  idle: "Ready",
+  listening: "Listening",
+  processing: "Thinking",
+  speaking: "Speaking",
 }
 
 export function GawinVoiceInterface() {
-  const [state, setState] = useState<VoiceState>("idle")
-  const [isListening, setIsListening] = useState(false)
-  const [audioLevel, setAudioLevel] = useState(0)
-  const recognitionRef = useRef<any>(null)
-  const synthRef = useRef<SpeechSynthesis | null>(null)
+  const [audioOutput, setAudioOutput] = useState<AudioOutput | null>(null)
+  const { speechInput, speechOutput } = useSpeechEngines(audioOutput)
+  const [personaId, setPersonaId] = useState<string>(() => getPersona().id)
+  const persona = getPersona(personaId)
+  // Unset until the user picks one, so the persona's own language applies
+  const [chosenLanguage, setChosenLanguage] = useState<LanguageCode | null>(null)
+  const language = chosenLanguage ?? persona.language
+  const transcript = useTranscript()
+  const [showTranscript, setShowTranscript] = useState(false)
+  // Until the mic analyser is running there is nothing to endpoint with, so the browser decides
+  const [vadReady, setVadReady] = useState(false)
+  const [continuous, setContinuous] = useState(false)
+  const [muted, setMuted] = useState(false)
+  const [speechRate, setSpeechRate] = useState(1)
+  const [volume, setVolume] = useState(1)
+  // Sing-along: music starts a turn that listens for as long as it plays, then asks about the lyrics
+  const [singAlong, setSingAlong] = useState(false)
+  const [singAlongTurn, setSingAlongTurn] = useState(false)
+  // "stop", "slower", "speak Filipino" and the like are handled here rather than by the model
+  const commands = useVoiceCommands({
+    stop: () => session.cancelSpeech(),
+    lastReply: () => session.getLastReply(),
+    speechRate: () => speechRate,
+    setSpeechRate: (rate) => {
+      setSpeechRate(rate)
+      localStorage.setItem(SPEECH_RATE_STORAGE_KEY, String(rate))
+    },
+    volume: () => volume,
+    setVolume: (value) => {
+      setVolume(value)
+      localStorage.setItem(VOLUME_STORAGE_KEY, String(value))
+    },
+    setMuted: (value) => updateMuted(value),
+    newConversation: () => session.newConversation(),
+    switchLanguage: (code) => selectLanguage(code),
+  })
+  const session = useVoiceSession({
+    speechInput,
+    speechOutput,
+    persona,
+    language,
+    muted,
+    speechRate,
+    volume,
+    commands,
+    // Scripted turns end on their own; the microphone would cut them short
+    endpointing: vadReady && speechInput?.kind !== "scripted" ? "vad" : "browser",
+    continuous,
+    pageContext: singAlongTurn ? SING_ALONG_CONTEXT : undefined,
+    onTurn: transcript.addTurn,
+    onOffline: (text) => offline.queueQuestion(text),
+  })
+  const offline = useOfflineMode(session, commands)
+  const { state, machine, startListening, stopListening, interrupt, handleVoiceActivity, sendMessage, newConversation } =
+    session
+  const reducedMotion = useReducedMotion()
+  const [webGLUnavailable, setWebGLUnavailable] = useState(false)
+  const [captionsEnabled, setCaptionsEnabled] = useState(true)
+  // The finished reply, for screen readers; set once speech is over so the two don't talk over each other
+  const [announcedReply, setAnnouncedReply] = useState("")
+  const [wakeWordEnabled, setWakeWordEnabled] = useState(false)
+  const wakeWord = useWakeWord(session, { enabled: wakeWordEnabled })
+  const [bargeIn] = useState(() => new BargeInDetector())
+  const [vad] = useState(() => new VoiceActivityDetector())
+  const [classifier] = useState(() => new AudioClassifier())
+  const [musicPlaying, setMusicPlaying] = useState(false)
+  // Read by the analysis loop, which keeps the callbacks from the render that started it
+  const singAlongRef = useRef(false)
+  singAlongRef.current = singAlong
+  const singingRef = useRef(false)
+  const startSingingRef = useRef(() => {})
+  startSingingRef.current = () => {
+    singingRef.current = true
+    setSingAlongTurn(true)
+    wakeWord.suspend().then(startListening)
+  }
+  const [micAnalyser, setMicAnalyser] = useState<AnalyserNode | null>(null)
+  // Written every animation frame and read by the cube, so it bypasses React state
+  const featuresRef = useRef<AudioFeatures>({ ...SILENT_FEATURES })
   const audioContextRef = useRef<AudioContext | null>(null)
+  const audioOutputRef = useRef<AudioOutput | null>(null)
   const analyserRef = useRef<AnalyserNode | null>(null)
+  // Finer-grained than the level analyser, so the music classifier can measure pitch
+  const classifierAnalyserRef = useRef<AnalyserNode | null>(null)
   const streamRef = useRef<MediaStream | null>(null)
   const animationRef = useRef<number | null>(null)
 
+  // Hands-free listening is opt-in and remembered per browser, as are the persona and language
+  useEffect(() => {
+    setWakeWordEnabled(localStorage.getItem(WAKE_WORD_STORAGE_KEY) === "on")
+    setContinuous(localStorage.getItem(CONTINUOUS_STORAGE_KEY) === "on")
+    setCaptionsEnabled(localStorage.getItem(CAPTIONS_STORAGE_KEY) !== "off")
+    setMuted(localStorage.getItem(MUTED_STORAGE_KEY) === "on")
+    setSpeechRate(readStoredNumber(SPEECH_RATE_STORAGE_KEY, SPEECH_RATE_RANGE, 1))
+    setVolume(readStoredNumber(VOLUME_STORAGE_KEY, VOLUME_RANGE, 1))
+    setSingAlong(localStorage.getItem(SING_ALONG_STORAGE_KEY) === "on")
+
+    const storedPersona = localStorage.getItem(PERSONA_STORAGE_KEY)
+    if (isPersonaId(storedPersona)) {
+      setPersonaId(storedPersona)
+    }
+
+    const storedLanguage = localStorage.getItem(LANGUAGE_STORAGE_KEY)
+    if (isLanguageCode(storedLanguage)) {
+      setChosenLanguage(storedLanguage)
+    }
+  }, [])
+
+  const selectPersona = (id: string) => {
+    setPersonaId(id)
+    localStorage.setItem(PERSONA_STORAGE_KEY, id)
+  }
+
+  const selectLanguage = (code: string) => {
+    if (!isLanguageCode(code)) return
+    setChosenLanguage(code)
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, code)
+  }
+
+  const toggleWakeWord = () => {
+    const enabled = !wakeWordEnabled
+    setWakeWordEnabled(enabled)
+    localStorage.setItem(WAKE_WORD_STORAGE_KEY, enabled ? "on" : "off")
+  }
+
+  const toggleContinuous = () => {
+    const enabled = !continuous
+    setContinuous(enabled)
+    localStorage.setItem(CONTINUOUS_STORAGE_KEY, enabled ? "on" : "off")
+  }
+
+  const toggleSingAlong = () => {
+    const enabled = !singAlong
+    setSingAlong(enabled)
+    localStorage.setItem(SING_ALONG_STORAGE_KEY, enabled ? "on" : "off")
+  }
+
+  // The sing-along background only goes with the turn the music started
+  useEffect(
+    () =>
+      machine.subscribe((next) => {
+        if (next === "idle" || next === "speaking") {
+          singingRef.current = false
+          setSingAlongTurn(false)
+        }
+      }),
+    [machine],
+  )
+
+  const updateMuted = (value: boolean) => {
+    setMuted(value)
+    localStorage.setItem(MUTED_STORAGE_KEY, value ? "on" : "off")
+    if (value) {
+      session.cancelSpeech()
+    }
+  }
+
+  const toggleCaptions = () => {
+    const enabled = !captionsEnabled
+    setCaptionsEnabled(enabled)
+    localStorage.setItem(CAPTIONS_STORAGE_KEY, enabled ? "on" : "off")
+  }
+
+  useEffect(() => {
+    if (state === "idle" && session.response) {
+      setAnnouncedReply(session.response)
+    }
+  }, [state, session.response])
+
   useEffect(() => {
     const initializeAudio = async () => {
       try {
         audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)()
 
+        // Server speech plays through the same context so its levels can be analysed too
+        audioOutputRef.current = new AudioOutput(audioContextRef.current)
+        setAudioOutput(audioOutputRef.current)
+
         // Get user media for voice isolation
         streamRef.current = await navigator.mediaDevices.getUserMedia({
           audio: {
@@ -56,6 +272,13 @@ export function GawinVoiceInterface() {
         highpass.connect(lowpass)
         lowpass.connect(analyserRef.current)
 
+        classifierAnalyserRef.current = audioContextRef.current.createAnalyser()
+        classifierAnalyserRef.current.fftSize = 2048
+        classifierAnalyserRef.current.smoothingTimeConstant = 0
+        lowpass.connect(classifierAnalyserRef.current)
+
+        setMicAnalyser(analyserRef.current)
+        setVadReady(true)
         startAudioAnalysis()
       } catch (error) {
         console.error("Failed to initialize audio:", error)
@@ -81,173 +304,322 @@ export function GawinVoiceInterface() {
     if (!analyserRef.current) return
 
     const bufferLength = analyserRef.current.frequencyBinCount
+    const sampleRate = audioContextRef.current!.sampleRate
     const dataArray = new Uint8Array(bufferLength)
+    const outputData = new Uint8Array(bufferLength)
+    const timeData = new Float32Array(analyserRef.current.fftSize)
+    const frequencyDb = new Float32Array(bufferLength)
+    const classifierAnalyser = classifierAnalyserRef.current!
+    const classifierTimeData = new Float32Array(classifierAnalyser.fftSize)
+    const classifierFrequencyDb = new Float32Array(classifierAnalyser.frequencyBinCount)
+    let wasListening = false
+    const micFeatures: AudioFeatures = { ...SILENT_FEATURES }
+    const outputFeatures: AudioFeatures = { ...SILENT_FEATURES }
 
     const analyze = () => {
       analyserRef.current!.getByteFrequencyData(dataArray)
-
-      // Calculate average audio level
-      const average = dataArray.reduce((sum, value) => sum + value, 0) / bufferLength
-      setAudioLevel(average / 255)
-
-      // Detect musical patterns (simple lyrics detection)
-      const lowFreq = dataArray.slice(0, 10).reduce((sum, val) => sum + val, 0) / 10
-      const midFreq = dataArray.slice(10, 50).reduce((sum, val) => sum + val, 0) / 40
-      const highFreq = dataArray.slice(50, 100).reduce((sum, val) => sum + val, 0) / 50
-
-      // Simple pattern detection for music/lyrics
-      const isMusic = midFreq > 100 && highFreq > 80 && lowFreq > 60
-      if (isMusic && state === "listening") {
-        console.log("[v0] Possible music/lyrics detected")
+      extractAudioFeatures(dataArray, sampleRate, micFeatures)
+      const level = micFeatures.level
+
+      // While Gawin speaks through the AudioContext, show its voice rather than the mic
+      const output = audioOutputRef.current
+      let features = micFeatures
+      if (output && machine.state === "speaking") {
+        output.analyser.getByteFrequencyData(outputData)
+        extractAudioFeatures(outputData, sampleRate, outputFeatures)
+        if (outputFeatures.level > level) {
+          features = outputFeatures
+        }
       }
-
-      animationRef.current = requestAnimationFrame(analyze)
-    }
-
-    analyze()
-  }
-
-  useEffect(() => {
-    if (typeof window !== "undefined") {
-      const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition
-
-      if (SpeechRecognition) {
-        recognitionRef.current = new SpeechRecognition()
-        recognitionRef.current.continuous = false
-        recognitionRef.current.interimResults = false
-        recognitionRef.current.lang = "en-US"
-
-        recognitionRef.current.onstart = () => {
-          setState("listening")
-          setIsListening(true)
+      Object.assign(featuresRef.current, features)
+
+      // Background music shouldn't count as the user talking, unless they want to sing along
+      const now = performance.now()
+      classifierAnalyser.getFloatTimeDomainData(classifierTimeData)
+      classifierAnalyser.getFloatFrequencyData(classifierFrequencyDb)
+      const classification = classifier.update(classifierTimeData, classifierFrequencyDb, sampleRate, now)
+      if (classification) {
+        const music = classification.type === "music-detected"
+        setMusicPlaying(music)
+        if (music && singAlongRef.current && machine.state === "idle") {
+          startSingingRef.current()
+        } else if (!music && singingRef.current && machine.state === "listening") {
+          // The song is over: send the lyrics that were heard
+          singingRef.current = false
+          stopListening()
         }
+      }
 
-        recognitionRef.current.onresult = (event: any) => {
-          const transcript = event.results[0][0].transcript
-          handleVoiceInput(transcript)
+      // Barge-in: the user talking over Gawin cuts the reply short
+      if (machine.state === "speaking" && !classifier.isMusic) {
+        if (bargeIn.update(level, now)) {
+          interrupt()
         }
+      } else {
+        bargeIn.reset()
+      }
 
-        recognitionRef.current.onend = () => {
-          setIsListening(false)
-          if (state === "listening") {
-            setState("idle")
-          }
+      // Endpointing: decide when the user has finished talking from the filtered mic signal
+      const listening = machine.state === "listening"
+      if (listening) {
+        if (!wasListening) {
+          vad.reset()
         }
-
-        recognitionRef.current.onerror = () => {
-          setIsListening(false)
-          setState("idle")
+        analyserRef.current!.getFloatTimeDomainData(timeData)
+        analyserRef.current!.getFloatFrequencyData(frequencyDb)
+        const event = vad.update(measureVoiceFrame(timeData, frequencyDb, sampleRate), now, classifier.isMusic)
+        // A sing-along turn ends with the music, not at a pause between lines
+        if (event && !singingRef.current) {
+          handleVoiceActivity(event)
         }
       }
+      wasListening = listening
 
-      synthRef.current = window.speechSynthesis
-    }
-
-    return () => {
-      if (recognitionRef.current) {
-        recognitionRef.current.stop()
-      }
-      if (synthRef.current) {
-        synthRef.current.cancel()
-      }
+      animationRef.current = requestAnimationFrame(analyze)
     }
-  }, [])
-
-  const handleVoiceInput = async (text: string) => {
-    setState("processing")
-
-    try {
-      const response = await fetch("/api/chat", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          messages: [{ role: "user", content: text }],
-        }),
-      })
-
-      if (response.ok) {
-        const reader = response.body?.getReader()
-        const decoder = new TextDecoder()
-        let aiResponse = ""
-
-        if (reader) {
-          while (true) {
-            const { done, value } = await reader.read()
-            if (done) break
-
-            const chunk = decoder.decode(value)
-            const lines = chunk.split("\n")
-
-            for (const line of lines) {
-              if (line.startsWith("0:")) {
-                try {
-                  const data = JSON.parse(line.slice(2))
-                  if (data.content) {
-                    aiResponse += data.content
-                  }
-                } catch (e) {
-                  // Skip invalid JSON
-                }
-              }
-            }
-          }
-        }
-
-        const finalResponse = aiResponse || "I heard you, but I'm not sure how to respond to that."
 
-        if (synthRef.current) {
-          setState("speaking")
-          const utterance = new SpeechSynthesisUtterance(finalResponse)
-          utterance.onend = () => setState("idle")
-          synthRef.current.speak(utterance)
-        } else {
-          setState("idle")
-        }
-      } else {
-        throw new Error("Failed to get AI response")
-      }
-    } catch (error) {
-      console.error("Error processing voice input:", error)
-      const fallbackResponse = "I'm having trouble processing that right now."
-
-      if (synthRef.current) {
-        setState("speaking")
-        const utterance = new SpeechSynthesisUtterance(fallbackResponse)
-        utterance.onend = () => setState("idle")
-        synthRef.current.speak(utterance)
-      } else {
-        setState("idle")
-      }
-    }
+    analyze()
   }
 
   const handleCubeClick = () => {
-    if (recognitionRef.current && !isListening && state === "idle") {
-      recognitionRef.current.start()
+    if (state === "idle") {
+      wakeWord.suspend().then(startListening)
+    } else if (state === "processing" || state === "speaking") {
+      interrupt()
     }
   }
 
+  // Hold Space to talk; letting go ends the utterance instead of waiting for silence
+  usePushToTalk({ onPress: handleCubeClick, onRelease: stopListening })
+
+  const handleTextMessage = (text: string) => {
+    // Typing while the mic is open replaces whatever was being said
+    stopListening()
+    sendMessage(text)
+  }
+
   return (
     <div className="w-full h-screen bg-gradient-to-br from-black via-gray-900 to-black relative">
-      <GawinIceCube state={state} onClick={handleCubeClick} />
-
-      {(state === "listening" || state === "speaking") && (
-        <div className="absolute bottom-0 left-0 right-0 h-32 pointer-events-none">
-          <div className="flex items-end justify-center h-full space-x-1 px-8">
-            {Array.from({ length: 50 }, (_, i) => (
-              <div
-                key={i}
-                className="bg-gradient-to-t from-blue-400/60 to-transparent rounded-t-full transition-all duration-75"
-                style={{
-                  width: "2px",
-                  height: `${Math.max(4, (audioLevel * 100 + Math.random() * 20) * (0.5 + Math.sin(Date.now() * 0.01 + i * 0.2) * 0.5))}px`,
-                  animationDelay: `${i * 20}ms`,
-                }}
-              />
-            ))}
+      {reducedMotion || webGLUnavailable ? (
+        <div className="w-full h-screen flex items-center justify-center">
+          <button
+            type="button"
+            onClick={handleCubeClick}
+            aria-label={`Talk to ${persona.name}`}
+            aria-describedby="talk-hint"
+            data-push-to-talk
+            className="rounded-full outline-none focus-visible:ring-2 focus-visible:ring-white/40"
+          >
+            <AIVoiceSphere state={state} size="xl" />
+          </button>
+        </div>
+      ) : (
+        <GawinIceCube
+          state={state}
+          features={featuresRef}
+          colors={persona.colors}
+          onClick={handleCubeClick}
+          label={`Talk to ${persona.name}`}
+          describedBy="talk-hint"
+          onWebGLUnavailable={() => setWebGLUnavailable(true)}
+        />
+      )}
+
+      <p id="talk-hint" className="sr-only">
+        Press Enter to start talking, or hold Space while you speak. You can also type a message below.
+      </p>
+      <div role="status" aria-live="polite" className="sr-only">
+        {session.activity && state === "processing" ? session.activity : STATE_ANNOUNCEMENTS[state]}
+      </div>
+      <div aria-live="polite" className="sr-only">
+        {announcedReply}
+      </div>
+
+      <div className="absolute top-4 left-4 flex flex-col space-y-2 text-sm text-gray-400 pointer-events-none">
+        {wakeWord.isPassiveListening && (
+          <div className="flex items-center space-x-2">
+            <span className="w-2 h-2 rounded-full bg-emerald-400 animate-pulse" />
+            <span>Say &ldquo;{wakeWord.phrase}&rdquo;</span>
           </div>
+        )}
+        {!offline.online && (
+          <div className="flex items-center space-x-2" title="Time, date and timers still work; other questions wait">
+            <WifiOff className="w-4 h-4" />
+            <span>
+              Offline
+              {offline.pending.length > 0 &&
+                ` · ${offline.pending.length} question${offline.pending.length === 1 ? "" : "s"} waiting`}
+            </span>
+          </div>
+        )}
+        {musicPlaying && (
+          <div
+            className="flex items-center space-x-2"
+            title={singAlong ? "Listening to the lyrics until the music stops" : "Music is treated as background sound, not speech"}
+          >
+            <Music className="w-4 h-4" />
+            <span>{singAlongTurn ? "Singing along" : "Music playing"}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="absolute top-4 right-4 flex items-center space-x-2">
+        <select
+          value={persona.id}
+          onChange={(event: React.ChangeEvent<HTMLSelectElement>) => selectPersona(event.target.value)}
+          aria-label="Persona"
+          title={persona.description}
+          className="px-3 py-2 rounded-full bg-white/5 text-sm text-gray-300 hover:bg-white/10 hover:text-white transition-colors outline-none"
+        >
+          {PERSONAS.map(({ id, name }) => (
+            <option key={id} value={id} className="bg-gray-900">
+              {name}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={language}
+          onChange={(event: React.ChangeEvent<HTMLSelectElement>) => selectLanguage(event.target.value)}
+          aria-label="Language"
+          className="px-3 py-2 rounded-full bg-white/5 text-sm text-gray-300 hover:bg-white/10 hover:text-white transition-colors outline-none"
+        >
+          {LANGUAGES.map(({ code, label }) => (
+            <option key={code} value={code} className="bg-gray-900">
+              {label}
+            </option>
+          ))}
+        </select>
+
+        {wakeWord.isSupported && (
+          <button
+            type="button"
+            onClick={toggleWakeWord}
+            aria-pressed={wakeWordEnabled}
+            aria-label={wakeWordEnabled ? "Turn off hands-free listening" : "Turn on hands-free listening"}
+            title={wakeWordEnabled ? "Hands-free listening is on" : "Hands-free listening is off"}
+            className="p-3 rounded-full bg-white/5 text-gray-300 hover:bg-white/10 hover:text-white transition-colors"
+          >
+            {wakeWordEnabled ? <Ear className="w-5 h-5" /> : <EarOff className="w-5 h-5" />}
+          </button>
+        )}
+
+        <button
+          type="button"
+          onClick={toggleContinuous}
+          aria-pressed={continuous}
+          aria-label={continuous ? "Turn off continuous conversation" : "Turn on continuous conversation"}
+          title={continuous ? "Gawin listens again after each reply" : "Click the cube for each question"}
+          className={cn(
+            "p-3 rounded-full hover:bg-white/10 hover:text-white transition-colors",
+            continuous ? "bg-white/15 text-white" : "bg-white/5 text-gray-300",
+          )}
+        >
+          <Repeat className="w-5 h-5" />
+        </button>
+
+        <button
+          type="button"
+          onClick={toggleSingAlong}
+          aria-pressed={singAlong}
+          aria-label={singAlong ? "Turn off sing-along mode" : "Turn on sing-along mode"}
+          title={singAlong ? "Music starts a turn, and Gawin names the song" : "Music is ignored"}
+          className={cn(
+            "p-3 rounded-full hover:bg-white/10 hover:text-white transition-colors",
+            singAlong ? "bg-white/15 text-white" : "bg-white/5 text-gray-300",
+          )}
+        >
+          <Music className="w-5 h-5" />
+        </button>
+
+        <button
+          type="button"
+          onClick={() => updateMuted(!muted)}
+          aria-pressed={muted}
+          aria-label={muted ? "Unmute" : "Mute"}
+          title={muted ? "Replies are shown but not spoken" : "Replies are spoken"}
+          className={cn(
+            "p-3 rounded-full hover:bg-white/10 hover:text-white transition-colors",
+            muted ? "bg-white/15 text-white" : "bg-white/5 text-gray-300",
+          )}
+        >
+          {muted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+        </button>
+
+        <button
+          type="button"
+          onClick={toggleCaptions}
+          aria-pressed={captionsEnabled}
+          aria-label={captionsEnabled ? "Hide captions" : "Show captions"}
+          title={captionsEnabled ? "Captions are on" : "Captions are off"}
+          className="p-3 rounded-full bg-white/5 text-gray-300 hover:bg-white/10 hover:text-white transition-colors"
+        >
+          {captionsEnabled ? <Captions className="w-5 h-5" /> : <CaptionsOff className="w-5 h-5" />}
+        </button>
+
+        <button
+          type="button"
+          onClick={() => setShowTranscript(!showTranscript)}
+          aria-expanded={showTranscript}
+          aria-label="Transcript"
+          title="Transcript"
+          className="p-3 rounded-full bg-white/5 text-gray-300 hover:bg-white/10 hover:text-white transition-colors"
+        >
+          <History className="w-5 h-5" />
+        </button>
+
+        <button
+          type="button"
+          onClick={newConversation}
+          aria-label="New conversation"
+          title="New conversation"
+          className="p-3 rounded-full bg-white/5 text-gray-300 hover:bg-white/10 hover:text-white transition-colors"
+        >
+          <MessageSquarePlus className="w-5 h-5" />
+        </button>
+      </div>
+
+      {state === "processing" && session.activity && (
+        <div className="absolute bottom-40 left-0 right-0 text-center text-sm text-gray-300 animate-pulse pointer-events-none">
+          {session.activity}…
+        </div>
+      )}
+
+      {captionsEnabled && session.caption && (
+        <div className="absolute bottom-24 left-0 right-0 flex justify-center px-4 pointer-events-none" aria-hidden="true">
+          <p className="max-w-2xl px-4 py-2 rounded-lg bg-black/60 text-center text-lg text-white">{session.caption}</p>
         </div>
       )}
+
+      {!reducedMotion && (state === "listening" || state === "speaking") && (
+        <div className="absolute bottom-0 left-0 right-0 h-32 px-8 pointer-events-none">
+          <SpectrumVisualizer
+            input={micAnalyser}
+            output={audioOutput?.analyser}
+            inputColor={`${persona.colors.listening}99`}
+            outputColor={`${persona.colors.speaking}99`}
+          />
+        </div>
+      )}
+
+      <div className="absolute bottom-6 left-0 right-0 flex justify-center px-4">
+        <TextMessageInput
+          onSubmit={handleTextMessage}
+          disabled={state === "processing" || state === "speaking"}
+          placeholder={`Type a message to ${persona.name}`}
+          className="w-full max-w-md"
+        />
+      </div>
+
+      {showTranscript && (
+        <TranscriptPanel
+          turns={transcript.turns}
+          assistantName={persona.name}
+          onClear={transcript.clear}
+          onClose={() => setShowTranscript(false)}
+          className="absolute top-0 right-0 z-10 h-full w-full sm:w-96 bg-gray-950/90 backdrop-blur-md border-l border-white/10"
+        />
+      )}
     </div>
   )
 }
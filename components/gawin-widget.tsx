@@ -0,0 +1,167 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { X } from "lucide-react"
+import { AIVoiceSphere } from "./ai-voice-sphere"
+import { GawinIceCube } from "./gawin-ice-cube"
+import { TextMessageInput } from "./text-message-input"
+import { useHostMessaging } from "@/hooks/use-host-messaging"
+import { useReducedMotion } from "@/hooks/use-reduced-motion"
+import { useSpeechEngines } from "@/hooks/use-speech-engines"
+import { useVoiceSession } from "@/hooks/use-voice-session"
+import type { EmbedCommand } from "@/lib/embed-messages"
+import type { LanguageCode } from "@/lib/languages"
+import { getPersona } from "@/lib/personas"
+import { cn } from "@/lib/utils"
+
+// The host resizes the frame to fit: just the cube, or the cube under the conversation panel
+const COLLAPSED_SIZE = { width: 96, height: 96 }
+const EXPANDED_SIZE = { width: 360, height: 480 }
+
+interface GawinWidgetProps {
+  personaId?: string
+  /** Defaults to the persona's language */
+  language?: LanguageCode
+  /** Origin of the page embedding the widget; without it the widget doesn't talk to the page */
+  hostOrigin: string | null
+  /** Corner of the host page the widget sits in */
+  side?: "left" | "right"
+}
+
+/**
+ * Compact version of the voice interface for embedding in other sites (see `/embed`): a small
+ * cube that opens a conversation panel, driven by the host page through `postMessage`.
+ */
+export function GawinWidget({ personaId, language, hostOrigin, side = "right" }: GawinWidgetProps) {
+  const persona = getPersona(personaId)
+  const [open, setOpen] = useState(false)
+  const [pageContext, setPageContext] = useState("")
+  const [webGLUnavailable, setWebGLUnavailable] = useState(false)
+  const reducedMotion = useReducedMotion()
+  const { speechInput, speechOutput } = useSpeechEngines()
+  const postToHost = useHostMessaging(hostOrigin, (command) => handleCommand(command))
+  const session = useVoiceSession({
+    speechInput,
+    speechOutput,
+    persona,
+    language,
+    pageContext,
+    interimResults: true,
+    onTurn: (turn) => postToHost({ type: "gawin:transcript", turn }),
+  })
+  const { state, startListening, stopListening, interrupt, sendMessage, cancelSpeech, newConversation } = session
+
+  useEffect(() => {
+    postToHost({ type: "gawin:ready", persona: persona.id, language: language ?? persona.language })
+  }, [postToHost, persona.id, persona.language, language])
+
+  useEffect(() => {
+    postToHost({ type: "gawin:state", state })
+  }, [postToHost, state])
+
+  useEffect(() => {
+    postToHost({ type: "gawin:resize", ...(open ? EXPANDED_SIZE : COLLAPSED_SIZE) })
+  }, [postToHost, open])
+
+  // A turn opens the panel so the reply can be read; it stays open until closed
+  useEffect(() => {
+    if (state !== "idle") setOpen(true)
+  }, [state])
+
+  const handleCommand = (command: EmbedCommand) => {
+    switch (command.type) {
+      case "gawin:start-listening":
+        startListening()
+        break
+      case "gawin:stop-listening":
+        stopListening()
+        break
+      case "gawin:send":
+        stopListening()
+        sendMessage(command.text)
+        break
+      case "gawin:set-context":
+        setPageContext(command.context)
+        break
+      case "gawin:stop-speaking":
+        cancelSpeech()
+        break
+      case "gawin:new-conversation":
+        newConversation()
+        break
+    }
+  }
+
+  const handleCubeClick = () => {
+    if (state === "idle") {
+      startListening()
+    } else if (state === "processing" || state === "speaking") {
+      interrupt()
+    }
+  }
+
+  const handleTextMessage = (text: string) => {
+    stopListening()
+    sendMessage(text)
+  }
+
+  return (
+    <div className={cn("fixed inset-0 flex flex-col justify-end gap-2 p-2", side === "left" ? "items-start" : "items-end")}>
+      {open && (
+        <section
+          aria-label={`Conversation with ${persona.name}`}
+          className="flex flex-1 min-h-0 w-full flex-col rounded-2xl border border-white/10 bg-gray-950/95 text-white shadow-2xl"
+        >
+          <header className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+            <span className="text-sm font-medium">{persona.name}</span>
+            <button
+              type="button"
+              onClick={() => setOpen(false)}
+              aria-label="Close conversation"
+              className="p-1 rounded-full text-gray-400 hover:bg-white/10 hover:text-white transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </header>
+
+          <div aria-live="polite" className="flex-1 overflow-y-auto px-4 py-3 space-y-3 text-sm">
+            {session.transcript && <p className="text-gray-400">{session.transcript}</p>}
+            {state === "processing" && !session.response && (
+              <p className="text-gray-500 animate-pulse">{session.activity ?? "Thinking"}…</p>
+            )}
+            {session.response && <p>{session.response}</p>}
+          </div>
+
+          <TextMessageInput
+            onSubmit={handleTextMessage}
+            disabled={state === "processing" || state === "speaking"}
+            placeholder={`Type a message to ${persona.name}`}
+            className="p-3 border-t border-white/10"
+          />
+        </section>
+      )}
+
+      <div className="w-20 h-20 shrink-0 overflow-hidden rounded-full bg-gray-950 shadow-lg">
+        {reducedMotion || webGLUnavailable ? (
+          <button
+            type="button"
+            onClick={handleCubeClick}
+            aria-label={`Talk to ${persona.name}`}
+            className="w-full h-full flex items-center justify-center rounded-full outline-none focus-visible:ring-2 focus-visible:ring-white/40"
+          >
+            <AIVoiceSphere state={state} size="sm" />
+          </button>
+        ) : (
+          <GawinIceCube
+            state={state}
+            colors={persona.colors}
+            onClick={handleCubeClick}
+            label={`Talk to ${persona.name}`}
+            onWebGLUnavailable={() => setWebGLUnavailable(true)}
+            className="h-full"
+          />
+        )}
+      </div>
+    </div>
+  )
+}
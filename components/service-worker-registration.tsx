@@ -0,0 +1,19 @@
+"use client"
+
+import { useEffect } from "react"
+
+/**
+ * Registers `public/sw.js`, which caches the app shell for offline use. Skipped in development,
+ * where a cached shell would hide code changes.
+ */
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return
+
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Failed to register the service worker:", error)
+    })
+  }, [])
+
+  return null
+}
@@ -0,0 +1,138 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { cn } from "@/lib/utils"
+
+export type SpectrumVariant = "bars" | "mirrored"
+
+interface SpectrumVisualizerProps {
+  /** Microphone analyser */
+  input?: AnalyserNode | null
+  /** Assistant playback analyser; drawn over the input when it is louder */
+  output?: AnalyserNode | null
+  barCount?: number
+  /** "bars" grow up from the bottom; "mirrored" grow both ways from the middle */
+  variant?: SpectrumVariant
+  inputColor?: string
+  outputColor?: string
+  /** Frequency range shown, in Hz; bars are spaced logarithmically across it */
+  minHz?: number
+  maxHz?: number
+  className?: string
+}
+
+// Gap between bars as a share of each bar's slot
+const GAP_RATIO = 0.4
+const MIN_BAR_PX = 2
+
+function sampleBins(data: Uint8Array, sampleRate: number, barCount: number, minHz: number, maxHz: number, into: Float32Array) {
+  const binHz = sampleRate / 2 / data.length
+  const ratio = maxHz / minHz
+  let total = 0
+
+  for (let bar = 0; bar < barCount; bar++) {
+    // Interpolate between neighbouring bins so narrow low-frequency bars don't all read the same one
+    const position = Math.min(data.length - 1, (minHz * ratio ** ((bar + 0.5) / barCount)) / binHz)
+    const low = Math.floor(position)
+    const high = Math.min(data.length - 1, low + 1)
+    const value = (data[low] + (data[high] - data[low]) * (position - low)) / 255
+    into[bar] = value
+    total += value
+  }
+  return total / barCount
+}
+
+/**
+ * Live spectrum drawn on a canvas from analyser frequency bins. It runs its own animation loop
+ * and never touches React state, so drawing doesn't re-render anything.
+ */
+export function SpectrumVisualizer({
+  input,
+  output,
+  barCount = 48,
+  variant = "bars",
+  inputColor = "rgba(96, 165, 250, 0.6)",
+  outputColor = "rgba(255, 255, 255, 0.6)",
+  minHz = 80,
+  maxHz = 8000,
+  className,
+}: SpectrumVisualizerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext("2d")
+    if (!canvas || !context) return
+
+    const resize = () => {
+      const ratio = window.devicePixelRatio || 1
+      canvas.width = Math.round(canvas.clientWidth * ratio)
+      canvas.height = Math.round(canvas.clientHeight * ratio)
+    }
+    resize()
+    const observer = new ResizeObserver(resize)
+    observer.observe(canvas)
+
+    const inputData = input ? new Uint8Array(input.frequencyBinCount) : null
+    const outputData = output ? new Uint8Array(output.frequencyBinCount) : null
+    const inputBars = new Float32Array(barCount)
+    const outputBars = new Float32Array(barCount)
+    let frame: number
+
+    const draw = () => {
+      const { width, height } = canvas
+      context.clearRect(0, 0, width, height)
+
+      let bars: Float32Array | null = null
+      let color = inputColor
+      let level = 0
+      if (input && inputData) {
+        input.getByteFrequencyData(inputData)
+        level = sampleBins(inputData, input.context.sampleRate, barCount, minHz, maxHz, inputBars)
+        bars = inputBars
+      }
+      if (output && outputData) {
+        output.getByteFrequencyData(outputData)
+        if (sampleBins(outputData, output.context.sampleRate, barCount, minHz, maxHz, outputBars) > level) {
+          bars = outputBars
+          color = outputColor
+        }
+      }
+
+      if (bars) {
+        const slot = width / barCount
+        const barWidth = Math.max(1, slot * (1 - GAP_RATIO))
+        // Bars fade towards the top, or towards both edges when mirrored
+        const gradient = context.createLinearGradient(0, height, 0, 0)
+        if (variant === "mirrored") {
+          gradient.addColorStop(0, "transparent")
+          gradient.addColorStop(0.5, color)
+        } else {
+          gradient.addColorStop(0, color)
+        }
+        gradient.addColorStop(1, "transparent")
+        context.fillStyle = gradient
+
+        for (let bar = 0; bar < barCount; bar++) {
+          const x = bar * slot + (slot - barWidth) / 2
+          const barHeight = Math.max(MIN_BAR_PX, bars[bar] * height)
+          if (variant === "mirrored") {
+            context.fillRect(x, (height - barHeight) / 2, barWidth, barHeight)
+          } else {
+            context.fillRect(x, height - barHeight, barWidth, barHeight)
+          }
+        }
+      }
+
+      frame = requestAnimationFrame(draw)
+    }
+    draw()
+
+    return () => {
+      cancelAnimationFrame(frame)
+      observer.disconnect()
+    }
+  }, [input, output, barCount, variant, inputColor, outputColor, minHz, maxHz])
+
+  return <canvas ref={canvasRef} aria-hidden="true" className={cn("block w-full h-full", className)} />
+}
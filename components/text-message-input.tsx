@@ -0,0 +1,52 @@
+"use client"
+
+import { useState } from "react"
+import { SendHorizontal } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface TextMessageInputProps {
+  /** Called with the trimmed text; the field is cleared afterwards */
+  onSubmit: (text: string) => void
+  disabled?: boolean
+  placeholder?: string
+  className?: string
+}
+
+/** Typed alternative to speaking, for when there is no microphone or talking isn't an option. */
+export function TextMessageInput({ onSubmit, disabled, placeholder = "Type a message", className }: TextMessageInputProps) {
+  const [text, setText] = useState("")
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const message = text.trim()
+    if (!message || disabled) return
+    onSubmit(message)
+    setText("")
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className={cn("flex items-center space-x-2", className)}>
+      <label htmlFor="text-message" className="sr-only">
+        Message
+      </label>
+      <input
+        id="text-message"
+        type="text"
+        value={text}
+        onChange={(event: React.ChangeEvent<HTMLInputElement>) => setText(event.target.value)}
+        placeholder={placeholder}
+        autoComplete="off"
+        maxLength={2000}
+        className="flex-1 px-4 py-2 rounded-full bg-white/5 text-sm text-white placeholder:text-gray-500 outline-none focus:bg-white/10 focus-visible:ring-2 focus-visible:ring-white/30"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !text.trim()}
+        aria-label="Send message"
+        className="p-2 rounded-full bg-white/5 text-gray-300 hover:bg-white/10 hover:text-white disabled:opacity-40 transition-colors"
+      >
+        <SendHorizontal className="w-5 h-5" />
+      </button>
+    </form>
+  )
+}
@@ -0,0 +1,145 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Download, Search, Trash2, X } from "lucide-react"
+import {
+  TRANSCRIPT_FORMATS,
+  exportTranscript,
+  searchTranscript,
+  type TranscriptFormat,
+  type TranscriptTurn,
+} from "@/lib/transcript"
+import { cn } from "@/lib/utils"
+
+interface TranscriptPanelProps {
+  turns: TranscriptTurn[]
+  assistantName?: string
+  onClear?: () => void
+  /** Shows a close button when set */
+  onClose?: () => void
+  className?: string
+}
+
+function download(content: string, filename: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function TranscriptPanel({ turns, assistantName = "Gawin", onClear, onClose, className }: TranscriptPanelProps) {
+  const [query, setQuery] = useState("")
+  const endRef = useRef<HTMLDivElement>(null)
+  const visibleTurns = useMemo(() => searchTranscript(turns, query), [turns, query])
+
+  // Follow new turns unless the user is looking at search results
+  useEffect(() => {
+    if (!query) {
+      endRef.current?.scrollIntoView({ block: "end" })
+    }
+  }, [turns.length, query])
+
+  const handleExport = (format: TranscriptFormat) => {
+    const { extension, mimeType } = TRANSCRIPT_FORMATS.find((option) => option.format === format)!
+    const date = new Date().toISOString().slice(0, 10)
+    download(exportTranscript(visibleTurns, format, assistantName), `gawin-transcript-${date}.${extension}`, mimeType)
+  }
+
+  const handleClear = () => {
+    if (window.confirm("Delete the whole conversation history from this browser?")) {
+      onClear?.()
+    }
+  }
+
+  return (
+    <section aria-label="Conversation transcript" className={cn("flex flex-col text-sm text-gray-200", className)}>
+      <div className="flex items-center justify-between px-4 pt-4 pb-2">
+        <h2 className="font-semibold text-white">Transcript</h2>
+        <div className="flex items-center space-x-1">
+          {onClear && (
+            <button
+              type="button"
+              onClick={handleClear}
+              disabled={turns.length === 0}
+              aria-label="Clear transcript"
+              title="Clear transcript"
+              className="p-2 rounded-full text-gray-400 hover:bg-white/10 hover:text-white disabled:opacity-40 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+          {onClose && (
+            <button
+              type="button"
+              onClick={onClose}
+              aria-label="Close transcript"
+              className="p-2 rounded-full text-gray-400 hover:bg-white/10 hover:text-white transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="px-4 pb-2">
+        <label className="flex items-center space-x-2 px-3 py-2 rounded-full bg-white/5 focus-within:bg-white/10">
+          <Search className="w-4 h-4 text-gray-400" />
+          <input
+            type="search"
+            value={query}
+            onChange={(event: React.ChangeEvent<HTMLInputElement>) => setQuery(event.target.value)}
+            placeholder="Search"
+            aria-label="Search transcript"
+            className="flex-1 bg-transparent outline-none placeholder:text-gray-500"
+          />
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4">
+        <ol className="space-y-3">
+          {visibleTurns.length === 0 && (
+            <li className="py-8 text-center text-gray-500">{query ? "No matches" : "Nothing said yet"}</li>
+          )}
+          {visibleTurns.map((turn) => (
+            <li key={turn.id} className={cn("flex flex-col", turn.role === "user" ? "items-end" : "items-start")}>
+              <span className="text-xs text-gray-500 mb-1">
+                {turn.role === "user" ? "You" : assistantName} ·{" "}
+                <time dateTime={new Date(turn.startedAt).toISOString()}>
+                  {new Date(turn.startedAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+                </time>
+              </span>
+              <p
+                className={cn(
+                  "max-w-[85%] px-3 py-2 rounded-2xl",
+                  turn.role === "user" ? "bg-blue-500/20 text-white" : "bg-white/5 text-gray-100",
+                )}
+              >
+                {turn.text}
+                {turn.interrupted && <span className="text-gray-500">…</span>}
+              </p>
+            </li>
+          ))}
+        </ol>
+        <div ref={endRef} />
+      </div>
+
+      <div className="flex items-center flex-wrap gap-2 px-4 py-3 border-t border-white/10">
+        <Download className="w-4 h-4 text-gray-400" aria-hidden="true" />
+        {TRANSCRIPT_FORMATS.map(({ format, label }) => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => handleExport(format)}
+            disabled={visibleTurns.length === 0}
+            aria-label={`Export transcript as ${label}`}
+            className="px-2 py-1 rounded-md text-xs text-gray-300 bg-white/5 hover:bg-white/10 hover:text-white disabled:opacity-40 transition-colors"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </section>
+  )
+}
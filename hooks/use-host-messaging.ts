@@ -0,0 +1,36 @@
+"use client"
+
+import { useCallback, useEffect, useRef } from "react"
+import { parseEmbedCommand, type EmbedCommand, type EmbedEvent } from "@/lib/embed-messages"
+
+/**
+ * `postMessage` link with the page embedding this one in an iframe. Commands are accepted only
+ * from the parent window at `hostOrigin`, and events are only delivered there. Without a host
+ * origin, or outside an iframe, nothing is sent or received.
+ */
+export function useHostMessaging(hostOrigin: string | null, onCommand: (command: EmbedCommand) => void) {
+  const onCommandRef = useRef(onCommand)
+  onCommandRef.current = onCommand
+
+  useEffect(() => {
+    if (!hostOrigin || window.parent === window) return
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent || event.origin !== hostOrigin) return
+      const command = parseEmbedCommand(event.data)
+      if (command) onCommandRef.current(command)
+    }
+
+    window.addEventListener("message", handleMessage)
+    return () => window.removeEventListener("message", handleMessage)
+  }, [hostOrigin])
+
+  return useCallback(
+    (event: EmbedEvent) => {
+      if (hostOrigin && window.parent !== window) {
+        window.parent.postMessage(event, hostOrigin)
+      }
+    },
+    [hostOrigin],
+  )
+}
@@ -0,0 +1,50 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useOnlineStatus } from "@/hooks/use-online-status"
+import type { VoiceSession } from "@/hooks/use-voice-session"
+import { createOfflineIntents } from "@/lib/offline-intents"
+import { OfflineQuestionQueue, type PendingQuestion } from "@/lib/offline-queue"
+import type { VoiceCommandRegistry } from "@/lib/voice-commands"
+
+/**
+ * While offline, answers the time, date and timers locally through `commands`, and keeps
+ * other questions (passed to `queueQuestion` from the session's `onOffline`) until the
+ * connection returns. They are then asked one at a time, each between turns.
+ */
+export function useOfflineMode(session: VoiceSession, commands: VoiceCommandRegistry) {
+  const online = useOnlineStatus()
+  const [queue] = useState(() => new OfflineQuestionQueue())
+  const [pending, setPending] = useState<PendingQuestion[]>([])
+  const { state, isStarting, sendMessage, scheduleAlert } = session
+
+  // Questions left over from a previous visit are asked once the page is back online
+  useEffect(() => setPending(queue.list()), [queue])
+
+  useEffect(() => {
+    if (online) return
+    const unregister = createOfflineIntents({ scheduleAlert }).map((intent) => commands.register(intent))
+    return () => unregister.forEach((remove) => remove())
+  }, [online, commands, scheduleAlert])
+
+  const queueQuestion = useCallback(
+    (text: string) => {
+      queue.add(text)
+      setPending(queue.list())
+    },
+    [queue],
+  )
+
+  useEffect(() => {
+    if (!online || state !== "idle" || isStarting || !pending.length) return
+
+    const [next] = pending
+    queue.remove(next.id)
+    setPending(queue.list())
+    // The answer may come minutes later, so say what it is an answer to
+    const question = next.text.replace(/[.!?\s]*$/, "")
+    sendMessage(next.text, { preface: `Earlier you asked: ${question}.`, alreadyRecorded: true })
+  }, [online, state, isStarting, pending, queue, sendMessage])
+
+  return { online, pending, queueQuestion }
+}
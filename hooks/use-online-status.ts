@@ -0,0 +1,23 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+/** Tracks `navigator.onLine`. It only knows about the network link, not whether the server answers. */
+export function useOnlineStatus() {
+  const [online, setOnline] = useState(true)
+
+  useEffect(() => {
+    setOnline(navigator.onLine)
+
+    const onOnline = () => setOnline(true)
+    const onOffline = () => setOnline(false)
+    window.addEventListener("online", onOnline)
+    window.addEventListener("offline", onOffline)
+    return () => {
+      window.removeEventListener("online", onOnline)
+      window.removeEventListener("offline", onOffline)
+    }
+  }, [])
+
+  return online
+}
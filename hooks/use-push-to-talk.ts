@@ -0,0 +1,67 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+
+export interface UsePushToTalkOptions {
+  /** Space went down */
+  onPress: () => void
+  /** Space came back up */
+  onRelease: () => void
+  enabled?: boolean
+}
+
+// Space means something else in these, so they keep it
+function isInteractive(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false
+  return (
+    target.isContentEditable ||
+    target.matches(":is(input, textarea, select, button, a[href], [role='button']):not([data-push-to-talk])")
+  )
+}
+
+/**
+ * Hold Space to talk, anywhere on the page except in form fields and other controls. Elements
+ * marked `data-push-to-talk` opt back in, so the cube can be focused and still use Space.
+ */
+export function usePushToTalk({ onPress, onRelease, enabled = true }: UsePushToTalkOptions) {
+  const callbacksRef = useRef({ onPress, onRelease })
+  callbacksRef.current = { onPress, onRelease }
+
+  useEffect(() => {
+    if (!enabled) return
+    let pressed = false
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== "Space" || isInteractive(event.target)) return
+      // Stop the page from scrolling
+      event.preventDefault()
+      if (pressed || event.repeat) return
+      pressed = true
+      callbacksRef.current.onPress()
+    }
+
+    const onKeyUp = (event: KeyboardEvent) => {
+      if (event.code !== "Space" || !pressed) return
+      // A focused button would otherwise also treat the release as a click
+      event.preventDefault()
+      pressed = false
+      callbacksRef.current.onRelease()
+    }
+
+    // Releasing Space in another window would otherwise leave the turn held open
+    const onBlur = () => {
+      if (!pressed) return
+      pressed = false
+      callbacksRef.current.onRelease()
+    }
+
+    window.addEventListener("keydown", onKeyDown)
+    window.addEventListener("keyup", onKeyUp)
+    window.addEventListener("blur", onBlur)
+    return () => {
+      window.removeEventListener("keydown", onKeyDown)
+      window.removeEventListener("keyup", onKeyUp)
+      window.removeEventListener("blur", onBlur)
+    }
+  }, [enabled])
+}
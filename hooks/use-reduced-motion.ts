@@ -0,0 +1,21 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+const QUERY = "(prefers-reduced-motion: reduce)"
+
+/** Tracks the user's `prefers-reduced-motion` setting, including changes while the page is open. */
+export function useReducedMotion() {
+  const [reducedMotion, setReducedMotion] = useState(false)
+
+  useEffect(() => {
+    const query = window.matchMedia(QUERY)
+    setReducedMotion(query.matches)
+
+    const onChange = (event: MediaQueryListEvent) => setReducedMotion(event.matches)
+    query.addEventListener("change", onChange)
+    return () => query.removeEventListener("change", onChange)
+  }, [])
+
+  return reducedMotion
+}
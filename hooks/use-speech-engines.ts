@@ -0,0 +1,32 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import type { AudioOutput } from "@/lib/audio-output"
+import {
+  createSpeechInputEngine,
+  createSpeechOutputEngine,
+  readSpeechEngineConfig,
+  type SpeechEngineConfig,
+} from "@/lib/speech-engine"
+
+/**
+ * The speech engines chosen in the URL or environment, for `useVoiceSession`. Both are
+ * undefined until mount, since the choice comes from the URL, so the session starts on its
+ * defaults.
+ */
+export function useSpeechEngines(audioOutput: AudioOutput | null = null) {
+  const [config, setConfig] = useState<SpeechEngineConfig | null>(null)
+
+  useEffect(() => setConfig(readSpeechEngineConfig()), [])
+
+  const speechInput = useMemo(
+    () => (config ? createSpeechInputEngine(config.input, config.script) : undefined),
+    [config],
+  )
+  const speechOutput = useMemo(
+    () => (config ? createSpeechOutputEngine(config.output, audioOutput) : undefined),
+    [config, audioOutput],
+  )
+
+  return { speechInput, speechOutput }
+}
@@ -0,0 +1,39 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { TranscriptTurn } from "@/lib/transcript"
+import { TranscriptStore } from "@/lib/transcript-store"
+
+/** Transcript history loaded from, and saved to, IndexedDB. Falls back to memory only where unavailable. */
+export function useTranscript() {
+  const [store] = useState(() => (TranscriptStore.isSupported() ? new TranscriptStore() : null))
+  const [turns, setTurns] = useState<TranscriptTurn[]>([])
+
+  useEffect(() => {
+    store
+      ?.list()
+      // Keep anything recorded while loading; turns saved in the meantime are also in `stored`
+      .then((stored) =>
+        setTurns((current) => {
+          const storedIds = new Set(stored.map((turn) => turn.id))
+          return [...stored, ...current.filter((turn) => !storedIds.has(turn.id))]
+        }),
+      )
+      .catch((error) => console.error("Failed to load transcript:", error))
+  }, [store])
+
+  const addTurn = useCallback(
+    (turn: TranscriptTurn) => {
+      setTurns((current) => [...current, turn])
+      store?.add(turn).catch((error) => console.error("Failed to save transcript turn:", error))
+    },
+    [store],
+  )
+
+  const clear = useCallback(() => {
+    setTurns([])
+    store?.clear().catch((error) => console.error("Failed to clear transcript:", error))
+  }, [store])
+
+  return { turns, addTurn, clear }
+}
@@ -0,0 +1,34 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { VoiceCommandRegistry, createBuiltInCommands, type BuiltInCommandActions } from "@/lib/voice-commands"
+
+/**
+ * A command registry with the built-in commands bound to `actions`. Actions are read through a
+ * ref, so they always see the latest state. Register more commands with
+ * `registry.register(defineCommand(...))`, usually from an effect that returns the unregister
+ * function.
+ */
+export function useVoiceCommands(actions: BuiltInCommandActions) {
+  const actionsRef = useRef(actions)
+  actionsRef.current = actions
+
+  const [registry] = useState(() => {
+    const registry = new VoiceCommandRegistry()
+    const latest: BuiltInCommandActions = {
+      stop: () => actionsRef.current.stop(),
+      lastReply: () => actionsRef.current.lastReply(),
+      speechRate: () => actionsRef.current.speechRate(),
+      setSpeechRate: (rate) => actionsRef.current.setSpeechRate(rate),
+      volume: () => actionsRef.current.volume(),
+      setVolume: (volume) => actionsRef.current.setVolume(volume),
+      setMuted: (muted) => actionsRef.current.setMuted(muted),
+      newConversation: () => actionsRef.current.newConversation(),
+      switchLanguage: (code) => actionsRef.current.switchLanguage(code),
+    }
+    createBuiltInCommands(latest).forEach((command) => registry.register(command))
+    return registry
+  })
+
+  return registry
+}
@@ -0,0 +1,679 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { AlertScheduler, describeAlert, isScheduledAlert, type ScheduledAlert } from "@/lib/alerts"
+import { ApiError, describeApiError, readApiError } from "@/lib/api-errors"
+import { clearConversation, createSessionId, getDeviceId, type ReplyInterruption } from "@/lib/conversation"
+import { detectLanguage, type LanguageCode } from "@/lib/languages"
+import { getPersona, type Persona } from "@/lib/personas"
+import {
+  createSpeechInputEngine,
+  createSpeechOutputEngine,
+  type SpeechInputEngine,
+  type SpeechInputResult,
+  type SpeechOutputEngine,
+} from "@/lib/speech-engine"
+import type { ReplySpeech } from "@/lib/speech-queue"
+import { describeToolActivity } from "@/lib/tool-activity"
+import type { TranscriptTurn } from "@/lib/transcript"
+import { TurnTimer } from "@/lib/turn-timing"
+import { decodeUIMessageStream } from "@/lib/ui-message-stream"
+import type { VoiceCommandRegistry } from "@/lib/voice-commands"
+import type { VoiceActivityEvent } from "@/lib/voice-activity"
+import { VoiceStateMachine, type VoiceState } from "@/lib/voice-state-machine"
+
+const EMPTY_RESPONSE = "I heard you, but I'm not sure how to respond to that."
+const DEFAULT_FALLBACK_RESPONSE = "I'm having trouble processing that right now."
+const OFFLINE_RESPONSE = "I'm offline right now. I'll answer that as soon as I'm back online."
+
+export interface SendMessageOptions {
+  /** Spoken before the reply, e.g. to remind the user what a queued question was */
+  preface?: string
+  /** The question is already in the transcript from when it was first asked */
+  alreadyRecorded?: boolean
+}
+
+interface PendingReply {
+  sessionId: string
+  /** What the user heard, which is what the transcript keeps */
+  text: string
+  /** Everything generated, when an interruption cut `text` short; kept for "repeat that" */
+  fullText?: string
+  /** The server's id for the reply, from the start of its stream */
+  messageId?: string
+  /** Length of a spoken preface, which comes before the reply in the speech queue */
+  prefaceChars?: number
+  /** Set when the reply is first heard */
+  startedAt: number | null
+  interrupted?: boolean
+}
+
+export interface UseVoiceSessionOptions {
+  /** Surface partial transcripts while the user is still talking */
+  interimResults?: boolean
+  /** Show replies without speaking them */
+  muted?: boolean
+  /** Multiplies the persona's speech rate */
+  speechRate?: number
+  /** Speech volume from 0 to 1 */
+  volume?: number
+  /** Utterances matching one of these run it in the browser instead of going to `/api/chat` */
+  commands?: VoiceCommandRegistry
+  /** Spoken when the chat request fails */
+  fallbackResponse?: string
+  /** Turns the user's speech into text; defaults to the Web Speech API, or server transcription without it */
+  speechInput?: SpeechInputEngine | null
+  /** Speaks replies; defaults to the browser's speechSynthesis */
+  speechOutput?: SpeechOutputEngine | null
+  /** Sets the voice and language; the server applies the matching system prompt */
+  persona?: Persona
+  /** Recognition language and the language the model is asked to reply in; defaults to the persona's */
+  language?: LanguageCode
+  /** Background sent with every request, e.g. from the page embedding the widget */
+  pageContext?: string
+  /**
+   * "browser" lets the recognizer decide when an utterance ends; "vad" keeps it running until
+   * `handleVoiceActivity` reports the end of speech
+   */
+  endpointing?: "browser" | "vad"
+  /** Listen again as soon as a reply finishes, so the conversation continues without clicking */
+  continuous?: boolean
+  /**
+   * Called with a question that couldn't be sent because the browser is offline. When set, the
+   * user is told it will be answered later instead of hearing the generic failure line.
+   */
+  onOffline?: (text: string) => void
+  onTranscript?: (text: string) => void
+  /** Called with each finished utterance and reply, including when it started and ended */
+  onTurn?: (turn: TranscriptTurn) => void
+  onStateChange?: (state: VoiceState) => void
+}
+
+/**
+ * Owns one voice conversation: speech recognition, the `/api/chat` round trip and speech
+ * synthesis, all driven through a `VoiceStateMachine`. Options are read through a ref, so
+ * browser callbacks registered once at mount always see the latest values.
+ */
+export function useVoiceSession(options: UseVoiceSessionOptions = {}) {
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  const [machine] = useState(() => new VoiceStateMachine())
+  const [state, setState] = useState<VoiceState>(machine.state)
+  const [isSupported, setIsSupported] = useState(false)
+  const [transcript, setTranscript] = useState("")
+  const [response, setResponse] = useState("")
+  const [replyLanguage, setReplyLanguage] = useState<LanguageCode | null>(null)
+  const [activity, setActivity] = useState<string | null>(null)
+  const [caption, setCaption] = useState<string | null>(null)
+  // Boxed so saying the same thing twice still triggers the effect that speaks it
+  const [confirmation, setConfirmation] = useState<{ text: string } | null>(null)
+  // Recognition was asked to start but hasn't yet; the turn is still "idle" until it does
+  const [isStarting, setIsStarting] = useState(false)
+  const defaultEnginesRef = useRef<{ input: SpeechInputEngine | null; output: SpeechOutputEngine | null } | null>(null)
+  // The engine the current recognition session was started on, and whether VAD ends it
+  const activeInputRef = useRef<SpeechInputEngine | null>(null)
+  const continuousRef = useRef(false)
+  const sessionIdRef = useRef<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const queueRef = useRef<ReplySpeech | null>(null)
+  const interruptionRef = useRef<ReplyInterruption | null>(null)
+  const announcementsRef = useRef<string[]>([])
+  const listenStartedAtRef = useRef<number | null>(null)
+  // Everything heard so far when recognition runs until VAD endpointing stops it
+  const utteranceRef = useRef("")
+  const replyRef = useRef<PendingReply | null>(null)
+  // Everything the last reply said, even if it was cut short, for "repeat that"
+  const lastReplyRef = useRef<string | null>(null)
+  // When the user stopped talking, on the `performance.now()` clock; unset for typed turns
+  const speechEndedAtRef = useRef<number | null>(null)
+  const speechStartedAtRef = useRef<number | null>(null)
+  const timerRef = useRef<TurnTimer | null>(null)
+
+  useEffect(() => machine.subscribe((next) => setState(next)), [machine])
+
+  // Captions follow the segment being spoken and clear once the reply stops
+  useEffect(
+    () =>
+      machine.subscribe((next) => {
+        if (next !== "speaking") setCaption(null)
+      }),
+    [machine],
+  )
+
+  const recordTurn = useCallback((turn: Omit<TranscriptTurn, "id">) => {
+    if (turn.text) {
+      optionsRef.current.onTurn?.({ id: crypto.randomUUID(), ...turn })
+    }
+  }, [])
+
+  // A reply starts when it is first heard and ends when the turn leaves processing/speaking
+  useEffect(
+    () =>
+      machine.subscribe((next, previous) => {
+        const reply = replyRef.current
+        if (!reply) return
+
+        if (next === "speaking") {
+          reply.startedAt ??= Date.now()
+        } else if (previous === "processing" || previous === "speaking") {
+          replyRef.current = null
+          const fullText = reply.fullText ?? reply.text
+          if (fullText) lastReplyRef.current = fullText
+          const timer = timerRef.current
+          if (timer) {
+            timerRef.current = null
+            timer.interrupted = Boolean(reply.interrupted)
+            if (previous === "speaking" && !reply.interrupted) timer.mark("playbackEnd")
+            timer.report()
+          }
+          const endedAt = Date.now()
+          const { sessionId, text, interrupted } = reply
+          recordTurn({ sessionId, role: "assistant", text, startedAt: reply.startedAt ?? endedAt, endedAt, interrupted })
+        }
+      }),
+    [machine, recordTurn],
+  )
+
+  useEffect(() => {
+    optionsRef.current.onStateChange?.(state)
+  }, [state])
+
+  // Engines passed in options win; `null` means none, and unset falls back to the defaults
+  const getEngines = useCallback(() => {
+    const { speechInput, speechOutput } = optionsRef.current
+    const defaults = () =>
+      (defaultEnginesRef.current ??= { input: createSpeechInputEngine(), output: createSpeechOutputEngine() })
+    return {
+      input: speechInput === undefined ? defaults().input : speechInput,
+      output: speechOutput === undefined ? defaults().output : speechOutput,
+    }
+  }, [])
+
+  /** Starts a speech queue for a new reply, silencing whatever the previous turn was saying. */
+  const startSpeechQueue = useCallback(() => {
+    queueRef.current?.cancel()
+    queueRef.current = null
+
+    const { muted, persona = getPersona(), speechRate = 1, volume = 1 } = optionsRef.current
+    const { output } = getEngines()
+    if (muted || !output) return null
+
+    const callbacks = {
+      onStart: () => {
+        timerRef.current?.mark("firstAudio")
+        machine.send("RESPOND")
+      },
+      onDrain: () => machine.send("FINISH"),
+      onSegmentStart: (text: string) => setCaption(text),
+    }
+    const { voice } = persona
+
+    // Each segment is spoken in the language it is written in; segments too short to tell
+    // keep the language of the one before, starting from the user's chosen language
+    let segmentLanguage: LanguageCode = optionsRef.current.language ?? persona.language
+    const languageFor = (segment: string) => {
+      segmentLanguage = detectLanguage(segment) ?? segmentLanguage
+      setReplyLanguage(segmentLanguage)
+      return segmentLanguage
+    }
+
+    const queue = output.createReply({
+      ...callbacks,
+      voice: { ...voice, rate: voice.rate * speechRate, volume },
+      languageFor,
+    })
+    queueRef.current = queue
+    return queue
+  }, [machine, getEngines])
+
+  /** Ends the reply; the turn finishes once queued speech drains, or right away if nothing will be spoken. */
+  const finishReply = useCallback(
+    (queue: ReplySpeech | null) => {
+      if (queue && !queue.isCancelled) {
+        queue.end()
+      } else {
+        machine.send("FINISH")
+      }
+    },
+    [machine],
+  )
+
+  const speakFallback = useCallback(
+    (text: string) => {
+      setResponse(text)
+      if (replyRef.current) {
+        replyRef.current.text = text
+      }
+      const queue = startSpeechQueue()
+      queue?.write(text)
+      finishReply(queue)
+    },
+    [startSpeechQueue, finishReply],
+  )
+
+  /** Speaks a timer or reminder now if nothing else is going on, otherwise once the turn ends. */
+  const announce = useCallback(
+    (text: string) => {
+      if (!machine.can("ANNOUNCE")) {
+        announcementsRef.current.push(text)
+        return
+      }
+      replyRef.current = { sessionId: (sessionIdRef.current ??= createSessionId()), text, startedAt: null }
+      machine.send("ANNOUNCE")
+      setTranscript("")
+      setResponse(text)
+      const queue = startSpeechQueue()
+      queue?.write(text)
+      finishReply(queue)
+    },
+    [machine, startSpeechQueue, finishReply],
+  )
+
+  const announceRef = useRef(announce)
+  announceRef.current = announce
+  const [alerts] = useState(() => new AlertScheduler((alert) => announceRef.current(describeAlert(alert))))
+
+  useEffect(() => () => alerts.clear(), [alerts])
+
+  /** Sets a timer or reminder in this page, as server tools do; used for offline timers. */
+  const scheduleAlert = useCallback((alert: ScheduledAlert) => alerts.schedule(alert), [alerts])
+
+  /** Timers and reminders are set by server tools but fire here, where they can be heard. */
+  const handleToolOutput = useCallback(
+    (output: unknown) => {
+      if (typeof output !== "object" || output === null) return
+      const { alert, cancelledIds } = output as { alert?: unknown; cancelledIds?: unknown }
+
+      if (isScheduledAlert(alert)) {
+        alerts.schedule(alert)
+      }
+      if (Array.isArray(cancelledIds)) {
+        cancelledIds.forEach((id) => alerts.cancel(String(id)))
+      }
+    },
+    [alerts],
+  )
+
+  /** Runs `text` as a voice command if it is one; the confirmation is spoken once the turn is idle. */
+  const runCommand = useCallback(
+    (text: string) => {
+      const match = optionsRef.current.commands?.match(text)
+      if (!match) return false
+
+      const submittedAt = Date.now()
+      const sessionId = (sessionIdRef.current ??= createSessionId())
+      recordTurn({ sessionId, role: "user", text, startedAt: listenStartedAtRef.current ?? submittedAt, endedAt: submittedAt })
+      listenStartedAtRef.current = null
+      speechEndedAtRef.current = null
+      setTranscript(text)
+
+      const confirmation = match.command.run(match.argument, text)
+      if (confirmation) {
+        setConfirmation({ text: confirmation })
+      }
+      return true
+    },
+    [recordTurn],
+  )
+
+  // Spoken after the render that applies the command, so a new rate or language is heard in it
+  useEffect(() => {
+    if (confirmation) announce(confirmation.text)
+  }, [confirmation, announce])
+
+  const sendMessage = useCallback(
+    async (text: string, { preface, alreadyRecorded = false }: SendMessageOptions = {}) => {
+      // Commands run only where the turn could have been submitted, e.g. not in the middle of a reply
+      if (!machine.can("SUBMIT")) return
+      if (!alreadyRecorded && runCommand(text)) return
+      machine.send("SUBMIT")
+
+      const sessionId = (sessionIdRef.current ??= createSessionId())
+      const submittedAt = Date.now()
+      if (!alreadyRecorded) {
+        recordTurn({ sessionId, role: "user", text, startedAt: listenStartedAtRef.current ?? submittedAt, endedAt: submittedAt })
+      }
+      listenStartedAtRef.current = null
+      const reply: PendingReply = { sessionId, text: "", startedAt: null, prefaceChars: preface ? preface.length + 1 : 0 }
+      replyRef.current = reply
+
+      const speechEndedAt = speechEndedAtRef.current
+      speechEndedAtRef.current = null
+      const timer = new TurnTimer(speechEndedAt === null ? "text" : "voice")
+      if (speechEndedAt !== null) timer.mark("speechEnd", speechEndedAt)
+      timerRef.current = timer
+
+      setTranscript(text)
+      setResponse("")
+      setReplyLanguage(null)
+      setActivity(null)
+      optionsRef.current.onTranscript?.(text)
+
+      const { onOffline } = optionsRef.current
+      if (onOffline && !navigator.onLine) {
+        onOffline(text)
+        speakFallback(OFFLINE_RESPONSE)
+        return
+      }
+
+      abortRef.current?.abort()
+      const controller = new AbortController()
+      abortRef.current = controller
+      const queue = startSpeechQueue()
+      if (preface) {
+        queue?.write(`${preface} `)
+      }
+
+      const interruption = interruptionRef.current
+      interruptionRef.current = null
+
+      try {
+        timer.mark("requestSent")
+        const response = await fetch("/api/chat", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            sessionId,
+            persona: optionsRef.current.persona?.id,
+            language: optionsRef.current.language,
+            deviceId: getDeviceId(),
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            messages: [{ role: "user", content: text }],
+            context: optionsRef.current.pageContext || undefined,
+            interruption: interruption ?? undefined,
+          }),
+          signal: controller.signal,
+        })
+        timer.requestId = response.headers.get("X-Request-Id") ?? undefined
+
+        if (!response.ok) {
+          throw await readApiError(response)
+        }
+        if (!response.body) {
+          throw new Error("Failed to get AI response")
+        }
+
+        // Speak sentence by sentence while the rest of the reply is still streaming
+        const { text: aiResponse, aborted } = await decodeUIMessageStream(
+          response.body,
+          {
+            onTextDelta: (delta, text) => {
+              timer.mark("firstToken")
+              reply.text = text
+              setActivity(null)
+              setResponse(text)
+              queue?.write(delta)
+            },
+            onChunk: (chunk) => {
+              if (chunk.type === "start") {
+                reply.messageId = chunk.messageId
+              } else if (chunk.type === "tool-input-start") {
+                setActivity(describeToolActivity(chunk.toolName))
+              } else if (chunk.type === "tool-output-available") {
+                handleToolOutput(chunk.output)
+              }
+            },
+          },
+          controller.signal,
+        )
+        setActivity(null)
+
+        if (aborted) {
+          queue?.cancel()
+          // Ignored if the turn was already reset locally; otherwise the server gave up
+          machine.send("FINISH")
+          return
+        }
+
+        if (!aiResponse) {
+          speakFallback(EMPTY_RESPONSE)
+          return
+        }
+
+        finishReply(queue)
+      } catch (error) {
+        setActivity(null)
+        if (controller.signal.aborted) return
+
+        // fetch fails with a TypeError when the connection drops mid-request
+        if (onOffline && error instanceof TypeError && !navigator.onLine) {
+          onOffline(text)
+          speakFallback(OFFLINE_RESPONSE)
+          return
+        }
+
+        console.error("Error processing voice input:", error)
+        // Refusals (rate limits, oversized input) get a specific explanation; failures the generic line
+        const refusal = error instanceof ApiError ? describeApiError(error) : null
+        speakFallback(refusal ?? optionsRef.current.fallbackResponse ?? DEFAULT_FALLBACK_RESPONSE)
+      } finally {
+        if (abortRef.current === controller) {
+          abortRef.current = null
+        }
+      }
+    },
+    [machine, runCommand, startSpeechQueue, finishReply, speakFallback, handleToolOutput, recordTurn],
+  )
+
+  const { speechInput, speechOutput } = options
+  useEffect(() => {
+    setIsSupported(getEngines().input !== null)
+  }, [speechInput, getEngines])
+
+  // An engine that is switched out may still be listening or speaking
+  useEffect(() => () => speechInput?.abort(), [speechInput])
+  useEffect(() => () => speechOutput?.cancel(), [speechOutput])
+
+  useEffect(
+    () => () => {
+      abortRef.current?.abort()
+      queueRef.current?.cancel()
+      activeInputRef.current?.stop()
+      getEngines().output?.cancel()
+    },
+    [getEngines],
+  )
+
+  const startRecognition = useCallback(() => {
+    const { input } = getEngines()
+    if (!input) return false
+
+    setTranscript("")
+    utteranceRef.current = ""
+    const { language, persona = getPersona(), endpointing = "browser", interimResults = false } = optionsRef.current
+    const continuous = endpointing === "vad"
+
+    const onResult = (results: SpeechInputResult[], changedIndex: number) => {
+      // Continuous recognition splits one utterance into several results; it is sent on end
+      if (continuous) {
+        utteranceRef.current = results.map((result) => result.transcript).join(" ").replace(/\s+/g, " ").trim()
+        setTranscript(utteranceRef.current)
+        return
+      }
+
+      const { transcript: text, isFinal } = results[changedIndex]
+      setTranscript(text)
+
+      if (isFinal) {
+        // Browser endpointing gives no earlier sign that speech ended
+        speechEndedAtRef.current ??= performance.now()
+        sendMessage(text)
+      }
+    }
+
+    try {
+      input.start(
+        { lang: language ?? persona.language, continuous, interimResults },
+        {
+          onStart: () => {
+            setIsStarting(false)
+            listenStartedAtRef.current = Date.now()
+            speechEndedAtRef.current = null
+            machine.send("START_LISTENING")
+          },
+          onResult,
+          // Only leaves "listening"; a no-op once a result has moved the turn to "processing"
+          onEnd: () => {
+            setIsStarting(false)
+            const utterance = utteranceRef.current
+            utteranceRef.current = ""
+            if (utterance && machine.state === "listening") {
+              speechEndedAtRef.current ??= performance.now()
+              sendMessage(utterance)
+            }
+            listenStartedAtRef.current = null
+            machine.send("STOP_LISTENING")
+          },
+          onError: (error) => {
+            console.error("Speech recognition error:", error)
+            setIsStarting(false)
+            machine.send("STOP_LISTENING")
+          },
+        },
+      )
+      activeInputRef.current = input
+      continuousRef.current = continuous
+      setIsStarting(true)
+      return true
+    } catch (error) {
+      console.error("Failed to start speech recognition:", error)
+      return false
+    }
+  }, [machine, getEngines, sendMessage])
+
+  // When a turn ends, speak anything announced meanwhile, or in continuous mode listen for the next question
+  useEffect(
+    () =>
+      machine.subscribe((next, _previous, event) => {
+        if (next !== "idle") return
+        if (announcementsRef.current.length > 0) {
+          const pending = announcementsRef.current.shift()!
+          // Start from a fresh call stack rather than inside the transition that just happened
+          setTimeout(() => announceRef.current(pending))
+        } else if (event === "FINISH" && optionsRef.current.continuous) {
+          startRecognition()
+        }
+      }),
+    [machine, startRecognition],
+  )
+
+  const startListening = useCallback(() => {
+    if (machine.can("START_LISTENING")) {
+      startRecognition()
+    }
+  }, [machine, startRecognition])
+
+  /** Barge-in: drop the reply being generated or spoken and listen to the user right away. */
+  const interrupt = useCallback(() => {
+    if (!machine.can("INTERRUPT")) return
+
+    const heardText = queueRef.current?.spokenText ?? ""
+    // The server trims its copy of the reply to what was heard on the next turn; a reply it
+    // hasn't named yet (or never sent) has nothing stored to trim
+    const messageId = replyRef.current?.messageId
+    interruptionRef.current = messageId
+      ? { messageId, heardChars: Math.max(0, heardText.length - (replyRef.current?.prefaceChars ?? 0)) }
+      : null
+    if (replyRef.current) {
+      replyRef.current.fullText = replyRef.current.text
+      replyRef.current.text = heardText
+      replyRef.current.interrupted = true
+    }
+
+    abortRef.current?.abort()
+    queueRef.current?.cancel()
+    getEngines().output?.cancel()
+    setResponse(heardText ? `${heardText}…` : "")
+    machine.send("INTERRUPT")
+
+    if (!startRecognition()) {
+      machine.send("STOP_LISTENING")
+    }
+  }, [machine, getEngines, startRecognition])
+
+  const stopListening = useCallback(() => {
+    if (machine.state === "listening") {
+      activeInputRef.current?.stop()
+    }
+  }, [machine])
+
+  /** VAD endpointing: the end of speech (or none at all) stops recognition, which sends what was heard. */
+  const handleVoiceActivity = useCallback(
+    (event: VoiceActivityEvent) => {
+      if (event.type === "speech-start") {
+        speechStartedAtRef.current = event.at
+        return
+      }
+      // The event comes after the end-of-speech silence; the turn's latency starts before it
+      if (event.type === "speech-end" && speechStartedAtRef.current !== null) {
+        speechEndedAtRef.current = speechStartedAtRef.current + event.durationMs
+      }
+      if (!continuousRef.current) return
+      stopListening()
+    },
+    [stopListening],
+  )
+
+  const cancelSpeech = useCallback(() => {
+    queueRef.current?.cancel()
+    getEngines().output?.cancel()
+    if (machine.state === "speaking") {
+      machine.send("FINISH")
+    }
+  }, [machine, getEngines])
+
+  const newConversation = useCallback(() => {
+    const previousSessionId = sessionIdRef.current
+    sessionIdRef.current = createSessionId()
+
+    abortRef.current?.abort()
+    queueRef.current?.cancel()
+    activeInputRef.current?.abort()
+    getEngines().output?.cancel()
+    interruptionRef.current = null
+    utteranceRef.current = ""
+    // The abandoned reply is not worth keeping in the transcript, or timing
+    replyRef.current = null
+    timerRef.current = null
+    lastReplyRef.current = null
+    setTranscript("")
+    setResponse("")
+    setReplyLanguage(null)
+    setActivity(null)
+    machine.send("RESET")
+
+    if (previousSessionId) {
+      clearConversation(previousSessionId).catch((error) => console.error("Failed to clear conversation:", error))
+    }
+  }, [machine, getEngines])
+
+  return {
+    state,
+    isListening: state === "listening",
+    /** Recognition has been started and is waiting for the microphone */
+    isStarting,
+    isSupported,
+    transcript,
+    response,
+    /** Language the current reply is being spoken in, as detected per segment */
+    replyLanguage,
+    /** What a tool is doing while the turn is "processing", e.g. "Setting a timer" */
+    activity,
+    /** The sentence being spoken right now, for live captions */
+    caption,
+    machine,
+    /** Everything the most recent reply said, including any part cut off by an interruption */
+    getLastReply: () => lastReplyRef.current,
+    startListening,
+    stopListening,
+    handleVoiceActivity,
+    scheduleAlert,
+    interrupt,
+    sendMessage,
+    cancelSpeech,
+    newConversation,
+  }
+}
+
+export type VoiceSession = ReturnType<typeof useVoiceSession>
@@ -0,0 +1,65 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { VoiceSession } from "@/hooks/use-voice-session"
+import { WebSpeechRecognition } from "@/lib/web-speech-recognition"
+import { DEFAULT_WAKE_PHRASE, WakeWordListener, type WakePhraseMatch } from "@/lib/wake-word"
+
+export interface UseWakeWordOptions {
+  /** Passive listening only runs while this is true; it is the user's privacy switch */
+  enabled: boolean
+  phrase?: string
+}
+
+/**
+ * Hands-free mode: while the session is idle, listens for the wake phrase and then starts a
+ * normal turn. Anything said right after the phrase is sent as the request itself.
+ */
+export function useWakeWord(session: VoiceSession, { enabled, phrase = DEFAULT_WAKE_PHRASE }: UseWakeWordOptions) {
+  const [listener, setListener] = useState<WakeWordListener | null>(null)
+  const sessionRef = useRef(session)
+  sessionRef.current = session
+
+  useEffect(() => {
+    // Passive listening needs streaming results, which server transcription can't give. The
+    // listener gets its own recognizer, so it never uses up a scripted session's turns.
+    if (!WebSpeechRecognition.isSupported()) return
+
+    const onWake = ({ remainder }: WakePhraseMatch) => {
+      if (remainder) {
+        sessionRef.current.sendMessage(remainder)
+      } else {
+        sessionRef.current.startListening()
+      }
+    }
+
+    const wakeListener = new WakeWordListener(new WebSpeechRecognition(), { phrase, onWake })
+    setListener(wakeListener)
+
+    return () => {
+      wakeListener.stop()
+    }
+  }, [phrase])
+
+  // Not while the session is starting its own recognizer, e.g. to continue the conversation
+  const isPassiveListening = listener !== null && enabled && session.state === "idle" && !session.isStarting
+
+  useEffect(() => {
+    if (!listener) return
+    if (isPassiveListening) {
+      listener.start()
+    } else {
+      listener.stop()
+    }
+  }, [listener, isPassiveListening])
+
+  /** Frees the microphone for a turn started some other way, e.g. a click. */
+  const suspend = useCallback(() => listener?.stop() ?? Promise.resolve(), [listener])
+
+  return {
+    isSupported: listener !== null,
+    isPassiveListening,
+    phrase,
+    suspend,
+  }
+}
@@ -0,0 +1,7 @@
+export async function register() {
+  // Fail fast on a bad provider configuration instead of on the first chat request
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { getChatModelConfig } = await import("@/lib/model-provider")
+    getChatModelConfig()
+  }
+}
@@ -0,0 +1,81 @@
+/** A timer or reminder set by a tool on the server and fired by the browser. */
+export interface ScheduledAlert {
+  id: string
+  kind: "timer" | "reminder"
+  /** What the timer is for, or the reminder text */
+  label: string
+  /** Milliseconds from when the tool ran; relative so client and server clocks may disagree */
+  delayMs: number
+}
+
+export function isScheduledAlert(value: unknown): value is ScheduledAlert {
+  if (typeof value !== "object" || value === null) return false
+  const alert = value as Partial<ScheduledAlert>
+  return (
+    typeof alert.id === "string" &&
+    (alert.kind === "timer" || alert.kind === "reminder") &&
+    typeof alert.label === "string" &&
+    typeof alert.delayMs === "number"
+  )
+}
+
+function plural(count: number, unit: string) {
+  return `${count} ${unit}${count === 1 ? "" : "s"}`
+}
+
+/** "1 hour and 30 minutes", rounded to the second and dropping zero parts. */
+export function describeDuration(ms: number) {
+  const totalSeconds = Math.max(1, Math.round(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+
+  const parts = [
+    hours && plural(hours, "hour"),
+    minutes && plural(minutes, "minute"),
+    seconds && plural(seconds, "second"),
+  ].filter(Boolean)
+  return parts.length > 1 ? `${parts.slice(0, -1).join(", ")} and ${parts.at(-1)}` : String(parts[0])
+}
+
+/** The sentence spoken when an alert goes off. */
+export function describeAlert(alert: ScheduledAlert) {
+  if (alert.kind === "reminder") {
+    return `Reminder: ${alert.label}`
+  }
+  return `Time's up! Your timer for ${alert.label || describeDuration(alert.delayMs)} is done.`
+}
+
+// setTimeout stores delays as a signed 32-bit integer; longer ones fire immediately
+const MAX_TIMEOUT_MS = 2 ** 31 - 1
+
+/** Keeps alerts scheduled in the page and calls `onFire` when each goes off. */
+export class AlertScheduler {
+  private timeouts = new Map<string, ReturnType<typeof setTimeout>>()
+
+  constructor(private onFire: (alert: ScheduledAlert) => void) {}
+
+  schedule(alert: ScheduledAlert) {
+    this.cancel(alert.id)
+    if (alert.delayMs > MAX_TIMEOUT_MS) {
+      console.warn("Alert is too far in the future to schedule:", alert)
+      return
+    }
+
+    const timeout = setTimeout(() => {
+      this.timeouts.delete(alert.id)
+      this.onFire(alert)
+    }, alert.delayMs)
+    this.timeouts.set(alert.id, timeout)
+  }
+
+  cancel(id: string) {
+    clearTimeout(this.timeouts.get(id))
+    this.timeouts.delete(id)
+  }
+
+  clear() {
+    this.timeouts.forEach((timeout) => clearTimeout(timeout))
+    this.timeouts.clear()
+  }
+}
@@ -0,0 +1,63 @@
+export type ApiErrorCode = "invalid_request" | "payload_too_large" | "rate_limited" | "internal_error"
+
+export interface ApiErrorBody {
+  /** Human-readable summary, kept as `error` so older clients still show something sensible */
+  error: string
+  code: ApiErrorCode
+  /** Seconds until the client may retry, for `rate_limited` */
+  retryAfter?: number
+  /** Field-level problems, for `invalid_request` and `payload_too_large` */
+  issues?: { path: string; message: string }[]
+}
+
+/** Builds a structured JSON error response. */
+export function apiError(status: number, body: ApiErrorBody, headers?: HeadersInit) {
+  const responseHeaders = new Headers(headers)
+  responseHeaders.set("Content-Type", "application/json")
+  return new Response(JSON.stringify(body), { status, headers: responseHeaders })
+}
+
+/** A failed API call, with whatever structured detail the server returned. */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: Partial<ApiErrorBody> = {},
+  ) {
+    super(body.error ?? `Request failed with status ${status}`)
+    this.name = "ApiError"
+  }
+}
+
+export async function readApiError(response: Response) {
+  let body: Partial<ApiErrorBody> = {}
+  try {
+    body = await response.json()
+  } catch {
+    // Proxies and crashes may return HTML or nothing at all
+  }
+  return new ApiError(response.status, body)
+}
+
+/**
+ * What the assistant says when a request is refused, phrased to be spoken. Returns null for
+ * server-side failures, where the caller's own fallback line fits better.
+ */
+export function describeApiError(error: ApiError) {
+  switch (error.body.code ?? error.status) {
+    case "rate_limited":
+    case 429: {
+      const seconds = Math.ceil(error.body.retryAfter ?? 0)
+      return seconds > 1
+        ? `You're going a little fast for me. Give me about ${seconds} seconds and ask again.`
+        : "You're going a little fast for me. Give me a moment and ask again."
+    }
+    case "payload_too_large":
+    case 413:
+      return "That was a bit too long for me. Could you say it more briefly?"
+    case "invalid_request":
+    case 400:
+      return "Sorry, I couldn't make sense of that request. Please try again."
+    default:
+      return null
+  }
+}
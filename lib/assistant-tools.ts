@@ -0,0 +1,295 @@
+import { generateId, tool } from "ai"
+import { z } from "zod"
+import { describeDuration, type ScheduledAlert } from "./alerts"
+import { CalculatorError, evaluateExpression } from "./calculator"
+import type { LanguageCode } from "./languages"
+import { getNoteStore } from "./note-store"
+import { UnitConversionError, convertUnits, formatNumber, formatQuantity } from "./unit-conversion"
+
+export interface AssistantToolContext {
+  /** Device id (or the session id when there is none); owns notes and alerts */
+  ownerId: string
+  /** IANA zone of the user's browser, e.g. "Asia/Manila" */
+  timeZone?: string
+  language: LanguageCode
+}
+
+/** Every tool returns a sentence for the model to relay, plus anything the client acts on. */
+interface SpokenOutput {
+  message: string
+}
+
+// The model only ever sees the sentence, never the structured fields
+const toSpokenModelOutput = (output: SpokenOutput) => ({ type: "text" as const, value: output.message })
+
+const MAX_ALERT_MS = 7 * 24 * 60 * 60 * 1000
+
+// Far more than anyone keeps running by voice; bounds what one owner can hold in memory
+const MAX_ALERTS_PER_OWNER = 20
+
+interface ActiveAlert extends ScheduledAlert {
+  endsAt: number
+}
+
+// Mirrors what each browser has scheduled, so alerts can be listed and cancelled by voice
+const globalForAlerts = globalThis as unknown as { activeAlerts?: Map<string, ActiveAlert[]> }
+const activeAlertsByOwner = (globalForAlerts.activeAlerts ??= new Map<string, ActiveAlert[]>())
+
+function setActiveAlerts(ownerId: string, alerts: ActiveAlert[]) {
+  if (alerts.length > 0) {
+    activeAlertsByOwner.set(ownerId, alerts)
+  } else {
+    activeAlertsByOwner.delete(ownerId)
+  }
+}
+
+function activeAlerts(ownerId: string) {
+  const now = Date.now()
+  const alerts = (activeAlertsByOwner.get(ownerId) ?? []).filter((alert) => alert.endsAt > now)
+  setActiveAlerts(ownerId, alerts)
+  return alerts
+}
+
+// Owners who never come back would otherwise keep their finished alerts forever
+function sweepExpiredOwners() {
+  const now = Date.now()
+  activeAlertsByOwner.forEach((alerts, ownerId) => {
+    if (alerts.every((alert) => alert.endsAt <= now)) activeAlertsByOwner.delete(ownerId)
+  })
+}
+
+/** Records a new alert, or returns null when the owner already has as many as allowed. */
+function addAlert(ownerId: string, kind: ScheduledAlert["kind"], label: string, delayMs: number) {
+  sweepExpiredOwners()
+  const alerts = activeAlerts(ownerId)
+  if (alerts.length >= MAX_ALERTS_PER_OWNER) return null
+
+  const alert: ScheduledAlert = { id: generateId(), kind, label, delayMs }
+  activeAlertsByOwner.set(ownerId, [...alerts, { ...alert, endsAt: Date.now() + delayMs }])
+  return alert
+}
+
+const TOO_MANY_ALERTS = `You already have ${MAX_ALERTS_PER_OWNER} timers and reminders. Cancel one before setting another.`
+
+function describeActiveAlert(alert: ActiveAlert) {
+  const remaining = describeDuration(alert.endsAt - Date.now())
+  if (alert.kind === "reminder") {
+    return `a reminder to ${alert.label} in ${remaining}`
+  }
+  return `a timer${alert.label ? ` for ${alert.label}` : ""} with ${remaining} left`
+}
+
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== "string") return false
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Milliseconds until the next occurrence of `time` ("HH:MM", 24-hour) on the user's clock. */
+function delayUntil(time: string, timeZone?: string) {
+  const [hour, minute] = time.split(":").map(Number)
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(new Date())
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0)
+
+  const nowSeconds = part("hour") * 3600 + part("minute") * 60 + part("second")
+  let seconds = hour * 3600 + minute * 60 - nowSeconds
+  if (seconds <= 0) seconds += 24 * 3600
+  return seconds * 1000
+}
+
+function listNotes(notes: { text: string }[]) {
+  if (notes.length === 0) return "You don't have any notes."
+  const items = notes.map((note, index) => `Note ${index + 1}: ${note.text}.`).join(" ")
+  return `You have ${notes.length === 1 ? "one note" : `${notes.length} notes`}. ${items}`
+}
+
+/**
+ * Tools available to the assistant on every turn. Results are phrased as short spoken
+ * sentences; timers and reminders are returned to the browser, which is what actually
+ * announces them.
+ */
+export function createAssistantTools({ ownerId, timeZone, language }: AssistantToolContext) {
+  return {
+    getCurrentTime: tool({
+      description: "Get the current date and time, for the user or for another time zone.",
+      inputSchema: z.object({
+        timeZone: z.string().optional().describe('IANA time zone such as "Asia/Tokyo"; omit for the user\'s own'),
+      }),
+      execute: async (input) => {
+        const zone = input.timeZone ?? timeZone
+        if (!isValidTimeZone(zone ?? "UTC")) {
+          return { message: `I don't recognize the time zone ${input.timeZone}.` }
+        }
+        const now = new Date()
+        const time = now.toLocaleTimeString(language, { timeZone: zone, hour: "numeric", minute: "2-digit" })
+        const date = now.toLocaleDateString(language, { timeZone: zone, dateStyle: "full" })
+        return { message: `It is ${time} on ${date}${input.timeZone ? ` in ${input.timeZone}` : ""}.` }
+      },
+      toModelOutput: toSpokenModelOutput,
+    }),
+
+    calculate: tool({
+      description: "Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, sqrt, ln, log, sin, cos, tan, pi and e.",
+      inputSchema: z.object({ expression: z.string().describe('For example "(12.5 * 4) ^ 2 / sqrt(16)"') }),
+      execute: async ({ expression }) => {
+        try {
+          return { message: `The answer is ${formatNumber(evaluateExpression(expression))}.` }
+        } catch (error) {
+          if (error instanceof CalculatorError) {
+            return { message: `I couldn't calculate that: ${error.message}.` }
+          }
+          throw error
+        }
+      },
+      toModelOutput: toSpokenModelOutput,
+    }),
+
+    convertUnits: tool({
+      description: "Convert a quantity between units of length, mass, volume, temperature, speed, time, area or data.",
+      inputSchema: z.object({
+        value: z.number(),
+        from: z.string().describe('Unit name or symbol, e.g. "km" or "degrees Fahrenheit"'),
+        to: z.string(),
+      }),
+      execute: async ({ value, from, to }) => {
+        try {
+          const result = convertUnits(value, from, to)
+          return { message: `${formatQuantity(value, result.from)} is ${formatQuantity(result.value, result.to)}.` }
+        } catch (error) {
+          if (error instanceof UnitConversionError) {
+            return { message: `${error.message}.` }
+          }
+          throw error
+        }
+      },
+      toModelOutput: toSpokenModelOutput,
+    }),
+
+    setTimer: tool({
+      description: "Start a countdown timer. The user's device announces it when it finishes.",
+      inputSchema: z.object({
+        seconds: z.number().positive().describe("Total duration in seconds"),
+        label: z.string().optional().describe('What the timer is for, e.g. "the pasta"'),
+      }),
+      execute: async ({ seconds, label = "" }) => {
+        const delayMs = Math.round(seconds * 1000)
+        if (delayMs > MAX_ALERT_MS) {
+          return { message: "Timers can run for at most a week." }
+        }
+        const alert = addAlert(ownerId, "timer", label, delayMs)
+        if (!alert) {
+          return { message: TOO_MANY_ALERTS }
+        }
+        return { message: `Timer set for ${describeDuration(delayMs)}${label ? ` for ${label}` : ""}.`, alert }
+      },
+      toModelOutput: toSpokenModelOutput,
+    }),
+
+    setReminder: tool({
+      description: "Remind the user of something later, either after a delay or at a time of day.",
+      inputSchema: z.object({
+        text: z.string().describe('What to remind them of, phrased as an action, e.g. "call your mother"'),
+        inMinutes: z.number().positive().optional(),
+        atTime: z
+          .string()
+          .regex(/^([01]?\d|2[0-3]):[0-5]\d$/)
+          .optional()
+          .describe('Local time of day in 24-hour "HH:MM" form'),
+      }),
+      execute: async ({ text, inMinutes, atTime }) => {
+        if (inMinutes === undefined && atTime === undefined) {
+          return { message: "I need to know when to remind you." }
+        }
+        const delayMs = atTime ? delayUntil(atTime, timeZone) : Math.round(inMinutes! * 60 * 1000)
+        if (delayMs > MAX_ALERT_MS) {
+          return { message: "Reminders can be at most a week away." }
+        }
+        const alert = addAlert(ownerId, "reminder", text, delayMs)
+        if (!alert) {
+          return { message: TOO_MANY_ALERTS }
+        }
+        return { message: `I'll remind you to ${text} in ${describeDuration(delayMs)}.`, alert }
+      },
+      toModelOutput: toSpokenModelOutput,
+    }),
+
+    listAlerts: tool({
+      description: "List the user's running timers and pending reminders.",
+      inputSchema: z.object({}),
+      execute: async () => {
+        const alerts = activeAlerts(ownerId)
+        if (alerts.length === 0) {
+          return { message: "You don't have any timers or reminders." }
+        }
+        return { message: `You have ${alerts.map(describeActiveAlert).join(", and ")}.` }
+      },
+      toModelOutput: toSpokenModelOutput,
+    }),
+
+    cancelAlert: tool({
+      description: "Cancel timers or reminders. Without a label, cancels the only one, or all of them if `all` is set.",
+      inputSchema: z.object({
+        label: z.string().optional().describe("Words from the timer label or reminder text"),
+        all: z.boolean().optional(),
+      }),
+      execute: async ({ label, all }) => {
+        const alerts = activeAlerts(ownerId)
+        const matches = label
+          ? alerts.filter((alert) => alert.label.toLowerCase().includes(label.toLowerCase()))
+          : alerts
+
+        if (matches.length === 0) {
+          return { message: label ? `I couldn't find a timer or reminder for ${label}.` : "There's nothing to cancel." }
+        }
+        if (matches.length > 1 && !all) {
+          return { message: `There are ${matches.length} of those: ${matches.map(describeActiveAlert).join(", and ")}. Which one?` }
+        }
+
+        const cancelledIds = matches.map((alert) => alert.id)
+        setActiveAlerts(
+          ownerId,
+          alerts.filter((alert) => !cancelledIds.includes(alert.id)),
+        )
+        return { message: `Cancelled ${matches.map(describeActiveAlert).join(", and ")}.`, cancelledIds }
+      },
+      toModelOutput: toSpokenModelOutput,
+    }),
+
+    saveNote: tool({
+      description: "Save a short note for the user to hear back later.",
+      inputSchema: z.object({ text: z.string().min(1).max(500) }),
+      execute: async ({ text }) => {
+        const notes = await getNoteStore().add(ownerId, text)
+        return { message: `Saved. You now have ${notes.length === 1 ? "one note" : `${notes.length} notes`}.` }
+      },
+      toModelOutput: toSpokenModelOutput,
+    }),
+
+    readNotes: tool({
+      description: "Read back the user's saved notes, numbered from 1.",
+      inputSchema: z.object({}),
+      execute: async () => ({ message: listNotes(await getNoteStore().list(ownerId)) }),
+      toModelOutput: toSpokenModelOutput,
+    }),
+
+    deleteNote: tool({
+      description: "Delete one saved note by its number as read out by readNotes.",
+      inputSchema: z.object({ number: z.number().int().positive() }),
+      execute: async ({ number }) => {
+        const removed = await getNoteStore().remove(ownerId, number - 1)
+        return { message: removed ? `Deleted note ${number}: ${removed.text}.` : `There is no note ${number}.` }
+      },
+      toModelOutput: toSpokenModelOutput,
+    }),
+  }
+}
@@ -0,0 +1,227 @@
+import { measureVoiceFrame } from "./voice-activity"
+
+export type AudioClass = "music" | "speech" | "silence"
+
+export interface AudioClassEvent {
+  /** "silence-detected" means a whole window was too quiet to classify, e.g. the music stopped */
+  type: `${AudioClass}-detected`
+  at: number
+  /** How clearly the window leaned that way, 0-1 */
+  confidence: number
+}
+
+export interface AudioClassifierOptions {
+  /** How much audio each decision looks at, in ms */
+  windowMs?: number
+  /** A new class must hold this long before it is reported, in ms */
+  holdMs?: number
+  /** Windows quieter than this (RMS) are not classified */
+  minEnergy?: number
+}
+
+const DEFAULTS: Required<AudioClassifierOptions> = {
+  windowMs: 3000,
+  holdMs: 1000,
+  minEnergy: 0.01,
+}
+
+const EVALUATE_EVERY_MS = 250
+// Onsets closer together than this are one event (a strum, a consonant cluster)
+const MIN_ONSET_GAP_MS = 100
+// Pitch search range for harmonicity, covering speaking voices and most melodies
+const MIN_PITCH_HZ = 80
+const MAX_PITCH_HZ = 500
+// Autocorrelation runs on a decimated signal; pitch doesn't need the full sample rate
+const DECIMATE_TO_HZ = 12000
+
+interface ClassifierFrame {
+  at: number
+  energy: number
+  flatness: number
+  centroid: number
+  flux: number
+  harmonicity: number
+}
+
+function mean(values: number[]) {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
+
+function std(values: number[], average = mean(values)) {
+  return Math.sqrt(mean(values.map((value) => (value - average) ** 2)))
+}
+
+/** Peak normalized autocorrelation in the pitch range: near 1 for steady tones, near 0 for noise. */
+function measureHarmonicity(timeData: Float32Array, sampleRate: number) {
+  const step = Math.max(1, Math.floor(sampleRate / DECIMATE_TO_HZ))
+  const rate = sampleRate / step
+  const samples: number[] = []
+  for (let i = 0; i < timeData.length; i += step) samples.push(timeData[i])
+
+  const minLag = Math.floor(rate / MAX_PITCH_HZ)
+  const maxLag = Math.min(Math.ceil(rate / MIN_PITCH_HZ), samples.length - 1)
+  let best = 0
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let product = 0
+    let energyA = 0
+    let energyB = 0
+    for (let i = 0; i + lag < samples.length; i++) {
+      product += samples[i] * samples[i + lag]
+      energyA += samples[i] * samples[i]
+      energyB += samples[i + lag] * samples[i + lag]
+    }
+    if (energyA > 0 && energyB > 0) {
+      best = Math.max(best, product / Math.sqrt(energyA * energyB))
+    }
+  }
+  return best
+}
+
+/**
+ * Tells music from speech over a sliding window. Speech has frequent dips between syllables,
+ * a spectrum that swings between vowels and consonants, and irregular onsets; music is more
+ * continuous, more consistently harmonic and tends to a regular beat. Feed it every animation
+ * frame from an analyser with `fftSize` of at least 2048 so pitch can be measured.
+ */
+export class AudioClassifier {
+  private options: Required<AudioClassifierOptions>
+  private frames: ClassifierFrame[] = []
+  private previousMagnitudes: Float32Array | null = null
+  private lastEvaluatedAt = -Infinity
+  private current: AudioClass | null = null
+  private candidate: { label: AudioClass; since: number } | null = null
+
+  constructor(options: AudioClassifierOptions = {}) {
+    this.options = { ...DEFAULTS, ...options }
+  }
+
+  /** The last reported class; null until something has been heard long enough. */
+  get classification() {
+    return this.current
+  }
+
+  get isMusic() {
+    return this.current === "music"
+  }
+
+  /**
+   * Feeds one frame: `timeData` from `getFloatTimeDomainData` and `frequencyDb` from
+   * `getFloatFrequencyData`. Returns an event when the class changes.
+   */
+  update(timeData: Float32Array, frequencyDb: Float32Array, sampleRate: number, now: number): AudioClassEvent | null {
+    this.frames.push(this.measure(timeData, frequencyDb, sampleRate, now))
+    while (this.frames.length > 0 && now - this.frames[0].at > this.options.windowMs) {
+      this.frames.shift()
+    }
+
+    if (now - this.lastEvaluatedAt < EVALUATE_EVERY_MS) return null
+    this.lastEvaluatedAt = now
+
+    const result = this.evaluate()
+    if (!result || result.label === this.current) {
+      this.candidate = null
+      return null
+    }
+
+    if (this.candidate?.label !== result.label) {
+      this.candidate = { label: result.label, since: now }
+    }
+    if (now - this.candidate.since < this.options.holdMs) return null
+
+    this.current = result.label
+    this.candidate = null
+    return { type: `${result.label}-detected`, at: now, confidence: result.confidence }
+  }
+
+  reset() {
+    this.frames = []
+    this.previousMagnitudes = null
+    this.lastEvaluatedAt = -Infinity
+    this.current = null
+    this.candidate = null
+  }
+
+  private measure(timeData: Float32Array, frequencyDb: Float32Array, sampleRate: number, at: number): ClassifierFrame {
+    const { energy, flatness } = measureVoiceFrame(timeData, frequencyDb, sampleRate)
+    const binHz = sampleRate / 2 / frequencyDb.length
+    const magnitudes = new Float32Array(frequencyDb.length)
+    let weighted = 0
+    let total = 0
+    let flux = 0
+
+    for (let i = 0; i < frequencyDb.length; i++) {
+      magnitudes[i] = Number.isFinite(frequencyDb[i]) ? 10 ** (frequencyDb[i] / 20) : 0
+      weighted += magnitudes[i] * i * binHz
+      total += magnitudes[i]
+      // Only rising energy counts towards an onset
+      const rise = magnitudes[i] - (this.previousMagnitudes?.[i] ?? magnitudes[i])
+      if (rise > 0) flux += rise
+    }
+    this.previousMagnitudes = magnitudes
+
+    return {
+      at,
+      energy,
+      flatness,
+      centroid: total > 0 ? weighted / total : 0,
+      flux,
+      harmonicity: energy > this.options.minEnergy ? measureHarmonicity(timeData, sampleRate) : 0,
+    }
+  }
+
+  /** Coefficient of variation of the gaps between onsets; low for a steady beat. */
+  private onsetIrregularity() {
+    const fluxes = this.frames.map((frame) => frame.flux)
+    const threshold = mean(fluxes) + 1.5 * std(fluxes)
+    const onsets: number[] = []
+
+    for (let i = 1; i < this.frames.length - 1; i++) {
+      const { flux, at } = this.frames[i]
+      const isPeak = flux > threshold && flux >= this.frames[i - 1].flux && flux >= this.frames[i + 1].flux
+      if (isPeak && (onsets.length === 0 || at - onsets[onsets.length - 1] >= MIN_ONSET_GAP_MS)) {
+        onsets.push(at)
+      }
+    }
+
+    if (onsets.length < 4) return null
+    const gaps = onsets.slice(1).map((at, index) => at - onsets[index])
+    return std(gaps) / mean(gaps)
+  }
+
+  private evaluate(): { label: AudioClass; confidence: number } | null {
+    const { frames } = this
+    // Needs most of a window to say anything
+    if (frames.length < 2 || frames[frames.length - 1].at - frames[0].at < this.options.windowMs * 0.8) return null
+
+    const energies = frames.map((frame) => frame.energy)
+    const meanEnergy = mean(energies)
+    if (meanEnergy < this.options.minEnergy) return { label: "silence", confidence: 1 }
+
+    // Share of frames well below the average: the gaps between syllables and words
+    const lowEnergyRatio = energies.filter((energy) => energy < meanEnergy * 0.3).length / frames.length
+    const sounding = frames.filter((frame) => frame.energy >= meanEnergy * 0.3)
+    const harmonicities = sounding.map((frame) => frame.harmonicity)
+    const harmonicity = mean(harmonicities)
+    const harmonicitySpread = std(harmonicities, harmonicity)
+    // In octaves, so a jump from a vowel to an "s" counts the same at any pitch
+    const centroidSpread = std(sounding.filter((frame) => frame.centroid > 0).map((frame) => Math.log2(frame.centroid)))
+    const flatnessSpread = std(sounding.map((frame) => frame.flatness))
+    const irregularity = this.onsetIrregularity()
+
+    // Positive evidence points to music, negative to speech
+    let score = 0
+    score += lowEnergyRatio < 0.1 ? 1 : lowEnergyRatio > 0.25 ? -1.5 : 0
+    score += harmonicity > 0.4 && harmonicitySpread < 0.1 ? 1 : harmonicitySpread > 0.2 ? -0.5 : 0
+    score += centroidSpread < 0.5 ? 0.5 : centroidSpread > 1 ? -1 : 0
+    score += flatnessSpread < 0.08 ? 0.5 : flatnessSpread > 0.15 ? -0.5 : 0
+    if (irregularity !== null) {
+      score += irregularity < 0.25 ? 1 : irregularity > 0.6 ? -0.5 : 0
+    }
+
+    const confidence = Math.min(1, Math.abs(score) / 4)
+    if (score >= 2) return { label: "music", confidence }
+    if (score <= -1) return { label: "speech", confidence }
+    return null
+  }
+}
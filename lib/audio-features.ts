@@ -0,0 +1,77 @@
+/** Normalized (0-1) loudness of a frame, overall and per frequency band. */
+export interface AudioFeatures {
+  level: number
+  /** Below 250 Hz: voice fundamentals, bass */
+  low: number
+  /** 250 Hz - 2 kHz: most of the speech energy */
+  mid: number
+  /** Above 2 kHz: sibilants, consonants, cymbals */
+  high: number
+}
+
+/** A live feature stream, updated in place by the analysis loop and read every frame by visuals. */
+export interface AudioFeatureSource {
+  readonly current: AudioFeatures
+}
+
+export const SILENT_FEATURES: AudioFeatures = { level: 0, low: 0, mid: 0, high: 0 }
+
+const LOW_MAX_HZ = 250
+const MID_MAX_HZ = 2000
+
+function averageBins(data: Uint8Array, from: number, to: number) {
+  const end = Math.min(to, data.length)
+  if (end <= from) return 0
+  let sum = 0
+  for (let i = from; i < end; i++) sum += data[i]
+  return sum / (end - from) / 255
+}
+
+/**
+ * Reduces `AnalyserNode.getByteFrequencyData` output to level and band features. Band edges are
+ * in Hz, so the result doesn't depend on the analyser's `fftSize`.
+ */
+export function extractAudioFeatures(data: Uint8Array, sampleRate: number, into: AudioFeatures = { ...SILENT_FEATURES }) {
+  const binHz = sampleRate / 2 / data.length
+  // Every band keeps at least one bin, even with coarse FFTs
+  const lowEnd = Math.max(1, Math.round(LOW_MAX_HZ / binHz))
+  const midEnd = Math.max(lowEnd + 1, Math.round(MID_MAX_HZ / binHz))
+
+  into.level = averageBins(data, 0, data.length)
+  into.low = averageBins(data, 0, lowEnd)
+  into.mid = averageBins(data, lowEnd, midEnd)
+  into.high = averageBins(data, midEnd, data.length)
+  return into
+}
+
+export interface AudioSmoothingOptions {
+  /** Time constant for rising values, in seconds; short so onsets register */
+  attack?: number
+  /** Time constant for falling values, in seconds; longer so visuals settle rather than flicker */
+  release?: number
+}
+
+/**
+ * Exponential smoothing with separate attack and release, scaled by frame time so it behaves
+ * the same at 30 and 120 fps.
+ */
+export class AudioFeatureSmoother {
+  readonly value: AudioFeatures = { ...SILENT_FEATURES }
+  private attack: number
+  private release: number
+
+  constructor({ attack = 0.05, release = 0.25 }: AudioSmoothingOptions = {}) {
+    this.attack = attack
+    this.release = release
+  }
+
+  /** Moves toward `target` by `deltaSeconds` worth of smoothing and returns the smoothed features. */
+  update(target: AudioFeatures, deltaSeconds: number) {
+    for (const key of ["level", "low", "mid", "high"] as const) {
+      const current = this.value[key]
+      const tau = target[key] > current ? this.attack : this.release
+      this.value[key] = current + (target[key] - current) * (1 - Math.exp(-deltaSeconds / tau))
+    }
+    return this.value
+  }
+}
@@ -0,0 +1,76 @@
+export interface AudioPlayback {
+  /** `AudioContext.currentTime` when playback started */
+  startedAt: number
+  duration: number
+}
+
+/**
+ * Plays decoded audio through an existing AudioContext, routed via an analyser so the
+ * assistant's voice can drive the same visuals as the microphone.
+ */
+export class AudioOutput {
+  readonly analyser: AnalyserNode
+  private gain: GainNode
+  private source: AudioBufferSourceNode | null = null
+
+  constructor(private context: AudioContext) {
+    this.analyser = context.createAnalyser()
+    this.analyser.fftSize = 256
+    this.analyser.smoothingTimeConstant = 0.8
+    // Volume is applied after the analyser, so a quiet voice still moves the visuals
+    this.gain = context.createGain()
+    this.analyser.connect(this.gain)
+    this.gain.connect(context.destination)
+  }
+
+  /** Playback volume from 0 to 1 */
+  get volume() {
+    return this.gain.gain.value
+  }
+
+  set volume(value: number) {
+    this.gain.gain.value = Math.min(1, Math.max(0, value))
+  }
+
+  get currentTime() {
+    return this.context.currentTime
+  }
+
+  decode(data: ArrayBuffer) {
+    return this.context.decodeAudioData(data)
+  }
+
+  /** Plays `buffer`, replacing anything already playing. `onEnded` is not called after `stop()`. */
+  play(buffer: AudioBuffer, onEnded: () => void): AudioPlayback {
+    this.stop()
+
+    // Autoplay policies may leave the context suspended until a user gesture
+    if (this.context.state === "suspended") {
+      this.context.resume().catch(() => {})
+    }
+
+    const source = this.context.createBufferSource()
+    source.buffer = buffer
+    source.connect(this.analyser)
+    source.onended = () => {
+      if (this.source !== source) return
+      this.source = null
+      source.disconnect()
+      onEnded()
+    }
+
+    this.source = source
+    source.start()
+    return { startedAt: this.context.currentTime, duration: buffer.duration }
+  }
+
+  stop() {
+    const source = this.source
+    if (!source) return
+
+    this.source = null
+    source.onended = null
+    source.stop()
+    source.disconnect()
+  }
+}
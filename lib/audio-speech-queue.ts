@@ -0,0 +1,157 @@
+import type { AudioOutput, AudioPlayback } from "./audio-output"
+import type { ReplySpeechOptions, SpeechEngineKind, SpeechOutputEngine } from "./speech-engine"
+import { SentenceSegmenter, type ReplySpeech, type SpeechQueueOptions } from "./speech-queue"
+
+export interface AudioSpeechQueueOptions extends Pick<SpeechQueueOptions, "onStart" | "onDrain" | "onSegmentStart"> {
+  voice?: string
+  language?: string
+  /** Picks the language of each segment, e.g. by detection; takes precedence over `language` */
+  languageFor?: (segment: string) => string
+  speed?: number
+}
+
+interface QueuedSegment {
+  text: string
+  /** Requested as soon as the segment is queued, so synthesis overlaps playback */
+  audio: Promise<AudioBuffer | null>
+}
+
+/**
+ * Server-side counterpart of `SpeechQueue`: synthesizes each segment through `/api/speech`
+ * and plays the results in order through an `AudioOutput`.
+ */
+export class AudioSpeechQueue implements ReplySpeech {
+  private segmenter = new SentenceSegmenter()
+  private queue: QueuedSegment[] = []
+  private spoken: string[] = []
+  private current: { text: string; playback: AudioPlayback } | null = null
+  private busy = false
+  private started = false
+  private ended = false
+  private cancelled = false
+  private abortController = new AbortController()
+
+  constructor(
+    private output: AudioOutput,
+    private options: AudioSpeechQueueOptions = {},
+  ) {}
+
+  get isCancelled() {
+    return this.cancelled
+  }
+
+  /** Estimated from playback progress, since decoded audio carries no word timings. */
+  get spokenText() {
+    const parts = [...this.spoken]
+    if (this.current) {
+      const { text, playback } = this.current
+      const progress = Math.min(1, (this.output.currentTime - playback.startedAt) / playback.duration)
+      const cut = text.lastIndexOf(" ", Math.floor(text.length * progress))
+      parts.push(progress >= 1 ? text : text.slice(0, Math.max(cut, 0)))
+    }
+    return parts.filter(Boolean).join(" ")
+  }
+
+  write(text: string) {
+    this.segmenter.push(text).forEach((segment) => this.enqueue(segment))
+  }
+
+  end() {
+    if (this.ended) return
+    this.segmenter.flush().forEach((segment) => this.enqueue(segment))
+    this.ended = true
+    this.checkDrained()
+  }
+
+  cancel() {
+    if (this.cancelled) return
+    this.cancelled = true
+    this.abortController.abort()
+    this.output.stop()
+  }
+
+  private enqueue(text: string) {
+    if (this.cancelled) return
+    this.queue.push({ text, audio: this.synthesize(text) })
+    this.playNext()
+  }
+
+  private async synthesize(text: string) {
+    const { voice, speed } = this.options
+    const language = this.options.languageFor?.(text) ?? this.options.language
+    try {
+      const response = await fetch("/api/speech", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text, voice, language, speed }),
+        signal: this.abortController.signal,
+      })
+      if (!response.ok) {
+        throw new Error(`Speech request failed with status ${response.status}`)
+      }
+      return await this.output.decode(await response.arrayBuffer())
+    } catch (error) {
+      if (!this.cancelled) {
+        console.error("Failed to synthesize speech segment:", error)
+      }
+      return null
+    }
+  }
+
+  private async playNext() {
+    if (this.busy || this.cancelled) return
+
+    const segment = this.queue.shift()
+    if (!segment) {
+      this.checkDrained()
+      return
+    }
+
+    this.busy = true
+    const buffer = await segment.audio
+    if (this.cancelled) return
+
+    // A segment that failed to synthesize is skipped rather than stalling the reply
+    if (!buffer) {
+      this.busy = false
+      this.playNext()
+      return
+    }
+
+    const playback = this.output.play(buffer, () => {
+      this.spoken.push(segment.text)
+      this.current = null
+      this.busy = false
+      this.playNext()
+    })
+    this.current = { text: segment.text, playback }
+    this.options.onSegmentStart?.(segment.text)
+
+    if (!this.started) {
+      this.started = true
+      this.options.onStart?.()
+    }
+  }
+
+  private checkDrained() {
+    if (this.ended && !this.cancelled && !this.busy && this.queue.length === 0) {
+      this.options.onDrain?.()
+    }
+  }
+}
+
+/** Speaks replies with `/api/speech` audio, one `AudioSpeechQueue` per reply. */
+export class ServerSpeechSynthesis implements SpeechOutputEngine {
+  readonly kind: SpeechEngineKind = "server"
+
+  constructor(private output: AudioOutput) {}
+
+  createReply({ voice, ...options }: ReplySpeechOptions) {
+    this.output.volume = voice.volume
+    return new AudioSpeechQueue(this.output, { ...options, voice: voice.serverVoice, speed: voice.rate })
+  }
+
+  cancel() {
+    this.output.stop()
+  }
+}
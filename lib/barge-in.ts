@@ -0,0 +1,66 @@
+export interface BargeInOptions {
+  /** Minimum normalized mic level (0-1) that can count as the user talking */
+  threshold?: number
+  /** How far above the residual echo floor the level must rise */
+  floorRatio?: number
+  /** How long the level must stay up before we interrupt, in ms */
+  sustainMs?: number
+  /** Ignore input right after playback starts, while echo cancellation converges, in ms */
+  graceMs?: number
+}
+
+const DEFAULTS: Required<BargeInOptions> = {
+  threshold: 0.18,
+  floorRatio: 2.5,
+  sustainMs: 250,
+  graceMs: 400,
+}
+
+// Smoothing for the echo floor estimate; small so speech onsets don't drag it up quickly
+const FLOOR_SMOOTHING = 0.05
+
+/**
+ * Decides when the user starts talking over the assistant. Fed with mic levels from the
+ * (echo-cancelled) analyser while the assistant is speaking, it tracks how much of the
+ * playback still leaks into the mic and only fires on sustained input well above that floor.
+ */
+export class BargeInDetector {
+  private options: Required<BargeInOptions>
+  private startedAt: number | null = null
+  private aboveSince: number | null = null
+  private floor = 0
+
+  constructor(options: BargeInOptions = {}) {
+    this.options = { ...DEFAULTS, ...options }
+  }
+
+  /** Returns true once, when the user has been talking long enough to interrupt. */
+  update(level: number, now: number) {
+    const { threshold, floorRatio, sustainMs, graceMs } = this.options
+
+    if (this.startedAt === null) {
+      this.startedAt = now
+      this.floor = level
+    }
+
+    const trigger = Math.max(threshold, this.floor * floorRatio)
+    if (now - this.startedAt < graceMs || level < trigger) {
+      this.floor += (level - this.floor) * FLOOR_SMOOTHING
+      this.aboveSince = null
+      return false
+    }
+
+    this.aboveSince ??= now
+    if (now - this.aboveSince < sustainMs) return false
+
+    this.reset()
+    return true
+  }
+
+  /** Call whenever playback stops so the next reply starts from a fresh estimate. */
+  reset() {
+    this.startedAt = null
+    this.aboveSince = null
+    this.floor = 0
+  }
+}
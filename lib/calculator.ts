@@ -0,0 +1,166 @@
+export class CalculatorError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "CalculatorError"
+  }
+}
+
+// Maps rather than object literals, so names like "constructor" aren't found on the prototype
+const FUNCTIONS = new Map<string, (value: number) => number>([
+  ["sqrt", Math.sqrt],
+  ["cbrt", Math.cbrt],
+  ["abs", Math.abs],
+  ["round", Math.round],
+  ["floor", Math.floor],
+  ["ceil", Math.ceil],
+  ["ln", Math.log],
+  ["log", Math.log10],
+  ["sin", Math.sin],
+  ["cos", Math.cos],
+  ["tan", Math.tan],
+])
+
+const CONSTANTS = new Map<string, number>([
+  ["pi", Math.PI],
+  ["e", Math.E],
+])
+
+type Token = { type: "number"; value: number } | { type: "name"; value: string } | { type: "symbol"; value: string }
+
+function tokenize(expression: string) {
+  const tokens: Token[] = []
+  // Thousands separators as spoken numbers tend to come back from the model, e.g. "1,250"
+  const source = expression.replace(/(\d),(?=\d{3}\b)/g, "$1").replace(/×/g, "*").replace(/÷/g, "/")
+  const pattern = /\s*(?:(\d+(?:\.\d*)?|\.\d+)(?:e([+-]?\d+))?|([a-z]+)|(\*\*|[-+*/%^()]))/giy
+
+  while (pattern.lastIndex < source.length) {
+    const start = pattern.lastIndex
+    const match = pattern.exec(source)
+    if (!match) {
+      if (source.slice(start).trim() === "") break
+      throw new CalculatorError(`Unexpected "${source.slice(start).trim()[0]}"`)
+    }
+
+    const [, digits, exponent, name, symbol] = match
+    if (digits !== undefined) {
+      tokens.push({ type: "number", value: Number(digits) * 10 ** Number(exponent ?? 0) })
+    } else if (name !== undefined) {
+      tokens.push({ type: "name", value: name.toLowerCase() })
+    } else {
+      tokens.push({ type: "symbol", value: symbol === "**" ? "^" : symbol })
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Recursive-descent parser, so model-supplied input is never handed to `eval`. Grammar, by
+ * increasing precedence: + -, then * / % (modulo), then unary minus, then ^ (right associative),
+ * then numbers, constants, parentheses and single-argument functions such as `sqrt(2)`.
+ */
+class Parser {
+  private position = 0
+
+  constructor(private tokens: Token[]) {}
+
+  parse() {
+    if (this.tokens.length === 0) {
+      throw new CalculatorError("The expression is empty")
+    }
+    const value = this.additive()
+    if (this.position < this.tokens.length) {
+      throw new CalculatorError(`Unexpected "${this.tokens[this.position].value}"`)
+    }
+    return value
+  }
+
+  private peekSymbol(...symbols: string[]) {
+    const token = this.tokens[this.position]
+    return token?.type === "symbol" && symbols.includes(token.value) ? token.value : null
+  }
+
+  private additive(): number {
+    let value = this.multiplicative()
+    for (let symbol = this.peekSymbol("+", "-"); symbol; symbol = this.peekSymbol("+", "-")) {
+      this.position++
+      const right = this.multiplicative()
+      value = symbol === "+" ? value + right : value - right
+    }
+    return value
+  }
+
+  private multiplicative(): number {
+    let value = this.unary()
+    for (let symbol = this.peekSymbol("*", "/", "%"); symbol; symbol = this.peekSymbol("*", "/", "%")) {
+      this.position++
+      const right = this.unary()
+      if (symbol !== "*" && right === 0) {
+        throw new CalculatorError("Division by zero")
+      }
+      value = symbol === "*" ? value * right : symbol === "/" ? value / right : value % right
+    }
+    return value
+  }
+
+  private unary(): number {
+    const symbol = this.peekSymbol("+", "-")
+    if (symbol) {
+      this.position++
+      const value = this.unary()
+      return symbol === "-" ? -value : value
+    }
+    return this.power()
+  }
+
+  private power(): number {
+    const base = this.primary()
+    if (this.peekSymbol("^")) {
+      this.position++
+      return base ** this.unary()
+    }
+    return base
+  }
+
+  private primary(): number {
+    const token = this.tokens[this.position++]
+    if (!token) {
+      throw new CalculatorError("The expression ends too early")
+    }
+
+    if (token.type === "number") return token.value
+
+    if (token.type === "name") {
+      const constant = CONSTANTS.get(token.value)
+      if (constant !== undefined) return constant
+      const fn = FUNCTIONS.get(token.value)
+      if (!fn) {
+        throw new CalculatorError(`Unknown name "${token.value}"`)
+      }
+      if (!this.peekSymbol("(")) {
+        throw new CalculatorError(`Expected "(" after ${token.value}`)
+      }
+      return fn(this.primary())
+    }
+
+    if (token.value === "(") {
+      const value = this.additive()
+      if (!this.peekSymbol(")")) {
+        throw new CalculatorError('Missing ")"')
+      }
+      this.position++
+      return value
+    }
+
+    throw new CalculatorError(`Unexpected "${token.value}"`)
+  }
+}
+
+/** Evaluates an arithmetic expression such as `(12.5 * 4) ^ 2 / sqrt(16)`. */
+export function evaluateExpression(expression: string) {
+  const value = new Parser(tokenize(expression)).parse()
+  if (!Number.isFinite(value)) {
+    throw new CalculatorError("The result is not a finite number")
+  }
+  return value
+}
@@ -0,0 +1,51 @@
+import { z } from "zod"
+
+/** Bodies above this are refused before parsing; a voice turn is a few hundred bytes. */
+export const MAX_CHAT_BODY_BYTES = 32 * 1024
+
+// The voice client sends one user message per turn; the server keeps the history
+const MAX_MESSAGES = 10
+const MAX_MESSAGE_CHARS = 2000
+
+const textSchema = z.string().max(MAX_MESSAGE_CHARS, `Messages are limited to ${MAX_MESSAGE_CHARS} characters`)
+
+const roleSchema = z.enum(["user", "assistant", "system"])
+
+// Either `{ role, content }` or a UI message with text parts, as sent by the AI SDK's `useChat`.
+// Kept as one object rather than a union so over-long text reports as a size issue.
+const messageSchema = z
+  .object({
+    id: z.string().max(128).optional(),
+    role: roleSchema,
+    content: textSchema.optional(),
+    parts: z.array(z.object({ type: z.literal("text"), text: textSchema })).max(MAX_MESSAGES).optional(),
+  })
+  .refine((message) => message.content !== undefined || message.parts !== undefined, {
+    message: "Each message needs `content` or `parts`",
+  })
+
+const idSchema = z.string().max(128)
+
+export const chatRequestSchema = z.object({
+  sessionId: idSchema.optional(),
+  /** Persona id; unknown ids fall back to the default persona */
+  persona: idSchema.optional(),
+  /** Language the user picked; defaults to the persona's */
+  language: z.string().max(35).optional(),
+  /** Stable per-browser id that owns notes and timers across conversations */
+  deviceId: idSchema.optional(),
+  /** The browser's IANA time zone, for time and reminder tools */
+  timeZone: z.string().max(64).optional(),
+  messages: z
+    .array(messageSchema)
+    .min(1, "At least one message is required")
+    .max(MAX_MESSAGES, `At most ${MAX_MESSAGES} messages can be sent at once`),
+  /** What the page embedding the widget says the user is doing there, e.g. the product they are viewing */
+  context: textSchema.optional(),
+  /** Set when the user barged in on the previous reply: its message id and how much of it they heard */
+  interruption: z.object({ messageId: idSchema.min(1), heardChars: z.number().int().min(0) }).optional(),
+})
+
+export type ChatRequestBody = z.infer<typeof chatRequestSchema>
+
+export type ChatRequestMessage = ChatRequestBody["messages"][number]
@@ -0,0 +1,82 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises"
+import path from "node:path"
+import type { UIMessage } from "ai"
+
+// Upper bound on what we keep per session; the prompt itself is trimmed by token budget
+const MAX_STORED_MESSAGES = 200
+
+export interface ConversationStore {
+  load(sessionId: string): Promise<UIMessage[]>
+  save(sessionId: string, messages: UIMessage[]): Promise<void>
+  clear(sessionId: string): Promise<void>
+}
+
+export class InMemoryConversationStore implements ConversationStore {
+  private sessions = new Map<string, UIMessage[]>()
+
+  async load(sessionId: string) {
+    return this.sessions.get(sessionId) ?? []
+  }
+
+  async save(sessionId: string, messages: UIMessage[]) {
+    this.sessions.set(sessionId, messages.slice(-MAX_STORED_MESSAGES))
+  }
+
+  async clear(sessionId: string) {
+    this.sessions.delete(sessionId)
+  }
+}
+
+/** Stores each session as a JSON file. Session ids must be validated before reaching here. */
+export class FileConversationStore implements ConversationStore {
+  constructor(private directory: string) {}
+
+  private filePath(sessionId: string) {
+    return path.join(this.directory, `${sessionId}.json`)
+  }
+
+  async load(sessionId: string) {
+    try {
+      const contents = await readFile(this.filePath(sessionId), "utf8")
+      return JSON.parse(contents) as UIMessage[]
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+      throw error
+    }
+  }
+
+  async save(sessionId: string, messages: UIMessage[]) {
+    await mkdir(this.directory, { recursive: true })
+    await writeFile(this.filePath(sessionId), JSON.stringify(messages.slice(-MAX_STORED_MESSAGES)))
+  }
+
+  async clear(sessionId: string) {
+    await rm(this.filePath(sessionId), { force: true })
+  }
+}
+
+// Cached on globalThis so in-memory sessions survive hot reloads in development
+const globalForStore = globalThis as unknown as { conversationStore?: ConversationStore }
+
+function createConversationStore(): ConversationStore {
+  const kind = process.env.CONVERSATION_STORE ?? "memory"
+
+  switch (kind) {
+    case "memory":
+      return new InMemoryConversationStore()
+    case "file":
+      return new FileConversationStore(process.env.CONVERSATION_STORE_DIR ?? path.join(process.cwd(), ".conversations"))
+    default:
+      throw new Error(`Unknown CONVERSATION_STORE "${kind}" (expected "memory" or "file")`)
+  }
+}
+
+export function getConversationStore() {
+  globalForStore.conversationStore ??= createConversationStore()
+  return globalForStore.conversationStore
+}
+
+/** Replaces the active store, e.g. with a SQLite-backed implementation of `ConversationStore`. */
+export function setConversationStore(store: ConversationStore) {
+  globalForStore.conversationStore = store
+}
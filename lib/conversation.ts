@@ -0,0 +1,92 @@
+import type { UIMessage } from "ai"
+
+// Rough heuristic (~4 characters per token for English) so trimming works without a tokenizer
+const CHARS_PER_TOKEN = 4
+
+// Overhead per message for role markers and separators in the model prompt
+const MESSAGE_TOKEN_OVERHEAD = 4
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/
+
+const DEVICE_ID_STORAGE_KEY = "gawin:device-id"
+
+export function createSessionId() {
+  return crypto.randomUUID()
+}
+
+export function isValidSessionId(value: unknown): value is string {
+  return typeof value === "string" && SESSION_ID_PATTERN.test(value)
+}
+
+/** Per-browser id, kept in localStorage, that owns notes and timers across conversations. */
+export function getDeviceId() {
+  let deviceId = localStorage.getItem(DEVICE_ID_STORAGE_KEY)
+  if (!isValidSessionId(deviceId)) {
+    deviceId = createSessionId()
+    localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId)
+  }
+  return deviceId
+}
+
+export function getMessageText(message: UIMessage) {
+  return message.parts
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("")
+}
+
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+export function estimateMessageTokens(message: UIMessage) {
+  return estimateTokens(getMessageText(message)) + MESSAGE_TOKEN_OVERHEAD
+}
+
+/**
+ * Keeps the most recent messages that fit in `maxTokens`. The latest message is always kept,
+ * and the result never starts with an assistant turn so the model sees a coherent exchange.
+ */
+export function trimToTokenBudget(messages: UIMessage[], maxTokens: number) {
+  const kept: UIMessage[] = []
+  let used = 0
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const cost = estimateMessageTokens(messages[i])
+    if (kept.length > 0 && used + cost > maxTokens) break
+    kept.unshift(messages[i])
+    used += cost
+  }
+
+  while (kept.length > 1 && kept[0].role === "assistant") {
+    kept.shift()
+  }
+
+  return kept
+}
+
+export async function clearConversation(sessionId: string) {
+  await fetch(`/api/chat?sessionId=${encodeURIComponent(sessionId)}`, { method: "DELETE" })
+}
+
+export interface ReplyInterruption {
+  /** Id of the assistant message the user talked over */
+  messageId: string
+  /** How many characters of it were spoken before they did */
+  heardChars: number
+}
+
+/**
+ * Cuts the latest assistant reply down to what the user heard before talking over it, using the
+ * stored text rather than anything the client sends. Only touches the reply named by the
+ * interruption, and only if it ends the history; if nothing was heard, the reply is dropped.
+ */
+export function truncateLastReply(messages: UIMessage[], { messageId, heardChars }: ReplyInterruption) {
+  const last = messages[messages.length - 1]
+  if (!last || last.role !== "assistant" || last.id !== messageId) return messages
+
+  const rest = messages.slice(0, -1)
+  const heardText = getMessageText(last).slice(0, heardChars).trimEnd()
+  if (!heardText) return rest
+
+  return [...rest, { ...last, parts: [{ type: "text" as const, text: heardText }], metadata: { truncated: true } }]
+}
@@ -0,0 +1,67 @@
+import { simulateReadableStream, type LanguageModel } from "ai"
+
+type LanguageModelV2 = Exclude<LanguageModel, string>
+type CallOptions = Parameters<LanguageModelV2["doGenerate"]>[0]
+type StreamPart = Awaited<ReturnType<LanguageModelV2["doStream"]>>["stream"] extends ReadableStream<infer T> ? T : never
+
+// Paces the streamed words roughly like a fast hosted model
+const WORD_DELAY_MS = 30
+
+function getLastUserText(options: CallOptions) {
+  for (let i = options.prompt.length - 1; i >= 0; i--) {
+    const message = options.prompt[i]
+    if (message.role === "user") {
+      return message.content.map((part) => (part.type === "text" ? part.text : "")).join("")
+    }
+  }
+  return ""
+}
+
+function getReply(options: CallOptions) {
+  const text = getLastUserText(options).trim()
+  return text ? `You said: ${text}` : "I didn't catch anything to repeat."
+}
+
+function getUsage(options: CallOptions, reply: string) {
+  const inputTokens = getLastUserText(options).split(/\s+/).filter(Boolean).length
+  const outputTokens = reply.split(/\s+/).length
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens }
+}
+
+/**
+ * Deterministic offline model that repeats the latest user message back. Lets the whole voice
+ * pipeline run without network access or API keys.
+ */
+export function createEchoModel(): LanguageModelV2 {
+  return {
+    specificationVersion: "v2",
+    provider: "echo",
+    modelId: "echo",
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const reply = getReply(options)
+      return {
+        content: [{ type: "text", text: reply }],
+        finishReason: "stop",
+        usage: getUsage(options, reply),
+        warnings: [],
+      }
+    },
+
+    async doStream(options) {
+      const reply = getReply(options)
+      const words = reply.match(/\S+\s*/g) ?? []
+
+      const chunks: StreamPart[] = [
+        { type: "stream-start", warnings: [] },
+        { type: "text-start", id: "0" },
+        ...words.map((word): StreamPart => ({ type: "text-delta", id: "0", delta: word })),
+        { type: "text-end", id: "0" },
+        { type: "finish", finishReason: "stop", usage: getUsage(options, reply) },
+      ]
+
+      return { stream: simulateReadableStream({ chunks, chunkDelayInMs: WORD_DELAY_MS }) }
+    },
+  }
+}
@@ -0,0 +1,45 @@
+import { z } from "zod"
+import type { TranscriptTurn } from "@/lib/transcript"
+import type { VoiceState } from "@/lib/voice-state-machine"
+
+// Same limit as a chat message, since both end up in the request
+const MAX_TEXT_CHARS = 2000
+
+/** Sent by the host page to the embedded widget with `postMessage`. */
+export const embedCommandSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("gawin:start-listening") }),
+  z.object({ type: z.literal("gawin:stop-listening") }),
+  z.object({ type: z.literal("gawin:send"), text: z.string().trim().min(1).max(MAX_TEXT_CHARS) }),
+  /** Replaces the background sent with each question; an empty string clears it */
+  z.object({ type: z.literal("gawin:set-context"), context: z.string().max(MAX_TEXT_CHARS) }),
+  z.object({ type: z.literal("gawin:stop-speaking") }),
+  z.object({ type: z.literal("gawin:new-conversation") }),
+])
+
+export type EmbedCommand = z.infer<typeof embedCommandSchema>
+
+/** Sent by the embedded widget to the host page. */
+export type EmbedEvent =
+  | { type: "gawin:ready"; persona: string; language: string }
+  | { type: "gawin:state"; state: VoiceState }
+  /** Each finished utterance and reply */
+  | { type: "gawin:transcript"; turn: TranscriptTurn }
+  /** The size the widget's frame needs, in CSS pixels */
+  | { type: "gawin:resize"; width: number; height: number }
+
+/** Returns null for anything that isn't a well-formed command, e.g. other scripts' messages. */
+export function parseEmbedCommand(data: unknown): EmbedCommand | null {
+  const result = embedCommandSchema.safeParse(data)
+  return result.success ? result.data : null
+}
+
+/** Accepts only a bare origin such as `https://example.com`, the form `postMessage` needs. */
+export function parseOrigin(value: string | null | undefined) {
+  if (!value) return null
+  try {
+    const { origin } = new URL(value)
+    return origin === value ? origin : null
+  } catch {
+    return null
+  }
+}
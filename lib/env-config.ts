@@ -0,0 +1,30 @@
+import { z } from "zod"
+
+/** Thrown when environment configuration for a server feature fails validation. */
+export class ConfigError extends Error {
+  constructor(subject: string, issues: z.ZodIssue[]) {
+    const details = issues.map((issue) => `  - ${issue.path.join(".") || "config"}: ${issue.message}`).join("\n")
+    super(`Invalid ${subject} configuration:\n${details}`)
+    this.name = "ConfigError"
+  }
+}
+
+/** Parses `raw` with `schema`, throwing a `ConfigError` that lists every problem at once. */
+export function parseConfig<T extends z.ZodTypeAny>(subject: string, schema: T, raw: unknown): z.output<T> {
+  const result = schema.safeParse(raw)
+  if (!result.success) {
+    throw new ConfigError(subject, result.error.issues)
+  }
+  return result.data
+}
+
+export function parseJsonEnv(subject: string, name: string) {
+  const value = process.env[name]
+  if (!value) return undefined
+
+  try {
+    return JSON.parse(value) as unknown
+  } catch {
+    throw new ConfigError(subject, [{ code: z.ZodIssueCode.custom, path: [name], message: "must be valid JSON" }])
+  }
+}
@@ -0,0 +1,30 @@
+/** Lowercased words without punctuation, for comparing what was heard with what was expected. */
+export function normalizeWords(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .split(/\s+/)
+    .filter(Boolean)
+}
+
+/** Levenshtein distance: the insertions, deletions and substitutions that turn `a` into `b`. */
+export function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Edits allowed per character, e.g. "hey gavin" or "hey go in" for "hey gawin"
+const MAX_EDIT_RATIO = 0.25
+
+/** How many edits a recognized `target` may be off by and still count, at least one. */
+export function maxEditsFor(target: string) {
+  return Math.max(1, Math.floor(target.length * MAX_EDIT_RATIO))
+}
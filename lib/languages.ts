@@ -0,0 +1,122 @@
+import { editDistance, maxEditsFor, normalizeWords } from "@/lib/fuzzy-match"
+
+export interface Language {
+  /** BCP 47 tag used for recognition, speech and the model prompt */
+  code: string
+  /** English name, as given to the model */
+  name: string
+  /** Name shown in the language menu */
+  label: string
+}
+
+export const LANGUAGES = [
+  { code: "en-US", name: "English", label: "English" },
+  { code: "fil-PH", name: "Filipino (Tagalog)", label: "Filipino" },
+  { code: "es-ES", name: "Spanish", label: "Español" },
+  { code: "ja-JP", name: "Japanese", label: "日本語" },
+  { code: "ko-KR", name: "Korean", label: "한국어" },
+  { code: "zh-CN", name: "Mandarin Chinese", label: "中文" },
+] as const satisfies readonly Language[]
+
+export type LanguageCode = (typeof LANGUAGES)[number]["code"]
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return LANGUAGES.some((language) => language.code === value)
+}
+
+export function getLanguage(code: LanguageCode): Language {
+  return LANGUAGES.find((language) => language.code === code)!
+}
+
+/**
+ * Finds a language by a spoken name: its English name or any word of it ("Tagalog", "Chinese"),
+ * or its menu label ("Español"). Tolerates small recognition errors.
+ */
+export function findLanguageByName(spoken: string): LanguageCode | null {
+  const heard = normalizeWords(spoken).join("")
+  if (!heard) return null
+
+  let best: LanguageCode | null = null
+  let bestEdits = Infinity
+  for (const { code, name, label } of LANGUAGES) {
+    const names = [name, label, ...normalizeWords(name)].map((alias) => normalizeWords(alias).join(""))
+    for (const alias of names) {
+      const edits = editDistance(heard, alias)
+      if (edits <= maxEditsFor(alias) && edits < bestEdits) {
+        best = code
+        bestEdits = edits
+      }
+    }
+  }
+  return best
+}
+
+// Tagalog is "tl" in ISO 639-1 but "fil" in the tags browsers use for Filipino
+const SUBTAG_ALIASES: Record<string, string> = { tl: "fil" }
+
+/** Lowercased primary subtag with aliases folded, e.g. "fil" for both "fil-PH" and "tl_PH". */
+export function primarySubtag(tag: string) {
+  const subtag = tag.split(/[-_]/)[0].toLowerCase()
+  return SUBTAG_ALIASES[subtag] ?? subtag
+}
+
+// Scripts that identify a language on their own; kana is checked before Han since Japanese uses both
+const SCRIPTS: [RegExp, LanguageCode][] = [
+  [/[\p{Script=Hiragana}\p{Script=Katakana}]/u, "ja-JP"],
+  [/\p{Script=Hangul}/u, "ko-KR"],
+  [/\p{Script=Han}/u, "zh-CN"],
+]
+
+// Frequent function words that rarely appear in the other Latin-script languages
+const FUNCTION_WORDS: [LanguageCode, Set<string>][] = [
+  [
+    "en-US",
+    new Set(
+      "the and is are was were you your it this that with for have has not what how can will would of to in on".split(" "),
+    ),
+  ],
+  [
+    "fil-PH",
+    new Set(
+      "ang ng mga sa na ay ko mo po ito iyan siya sila kami tayo ikaw ako hindi oo opo kung naman lang talaga din rin ba pa yung nang kasi pero dahil para".split(
+        " ",
+      ),
+    ),
+  ],
+  [
+    "es-ES",
+    new Set("el la los las es son un una que de y en por para con no sí pero como está qué muy también".split(" ")),
+  ],
+]
+
+// Below this many function-word hits a fragment is too short to call
+const MIN_HITS = 2
+
+/**
+ * Guesses the language of a reply fragment from its script, or for Latin text from function
+ * words. Returns null when the text is too short or ambiguous to tell; Taglish sentences come
+ * out as whichever language supplies more of the grammar.
+ */
+export function detectLanguage(text: string): LanguageCode | null {
+  for (const [pattern, code] of SCRIPTS) {
+    if (pattern.test(text)) return code
+  }
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? []
+  let best: LanguageCode | null = null
+  let bestHits = 0
+  let tied = false
+
+  for (const [code, vocabulary] of FUNCTION_WORDS) {
+    const hits = words.filter((word) => vocabulary.has(word)).length
+    if (hits > bestHits) {
+      best = code
+      bestHits = hits
+      tied = false
+    } else if (hits === bestHits) {
+      tied = true
+    }
+  }
+
+  return bestHits >= MIN_HITS && !tied ? best : null
+}
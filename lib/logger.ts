@@ -0,0 +1,47 @@
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+export type LogFields = Record<string, unknown>
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"]
+
+function minimumLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL as LogLevel | undefined
+  return level && LEVELS.includes(level) ? level : "info"
+}
+
+// Errors don't survive JSON.stringify, so they are flattened to their useful parts
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack }
+  }
+  return value
+}
+
+/**
+ * Writes one JSON object per line, which log collectors can index without parsing rules.
+ * `event` is a stable dotted name such as `chat.finish`; everything else goes in `fields`.
+ */
+export function log(level: LogLevel, event: string, fields: LogFields = {}) {
+  if (LEVELS.indexOf(level) < LEVELS.indexOf(minimumLevel())) return
+
+  const entry: LogFields = { time: new Date().toISOString(), level, event }
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) entry[key] = serialize(value)
+  }
+
+  const line = JSON.stringify(entry)
+  if (level === "error") {
+    console.error(line)
+  } else if (level === "warn") {
+    console.warn(line)
+  } else {
+    console.log(line)
+  }
+}
+
+export const logger = {
+  debug: (event: string, fields?: LogFields) => log("debug", event, fields),
+  info: (event: string, fields?: LogFields) => log("info", event, fields),
+  warn: (event: string, fields?: LogFields) => log("warn", event, fields),
+  error: (event: string, fields?: LogFields) => log("error", event, fields),
+}
@@ -0,0 +1,108 @@
+export type MetricLabels = Record<string, string>
+
+// Seconds; voice latency that matters runs from tens of milliseconds to a few seconds
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 0.75, 1, 1.5, 2, 3, 5, 8, 13]
+
+function escapeLabel(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")
+}
+
+function formatLabels(labels: MetricLabels) {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`)
+  return pairs.length ? `{${pairs.join(",")}}` : ""
+}
+
+// Series are keyed by their sorted labels so `{a, b}` and `{b, a}` are the same series
+function seriesKey(labels: MetricLabels) {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+interface Metric {
+  render(): string[]
+}
+
+export class Counter implements Metric {
+  private series = new Map<string, { labels: MetricLabels; value: number }>()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {}
+
+  inc(labels: MetricLabels = {}, value = 1) {
+    const key = seriesKey(labels)
+    const series = this.series.get(key) ?? { labels, value: 0 }
+    series.value += value
+    this.series.set(key, series)
+  }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`]
+    this.series.forEach(({ labels, value }) => lines.push(`${this.name}${formatLabels(labels)} ${value}`))
+    return lines
+  }
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, { labels: MetricLabels; buckets: number[]; sum: number; count: number }>()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly bounds: readonly number[] = DEFAULT_BUCKETS,
+  ) {}
+
+  observe(value: number, labels: MetricLabels = {}) {
+    if (!Number.isFinite(value) || value < 0) return
+
+    const key = seriesKey(labels)
+    const series = this.series.get(key) ?? { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 }
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) series.buckets[index]++
+    })
+    series.sum += value
+    series.count++
+    this.series.set(key, series)
+  }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`]
+    this.series.forEach(({ labels, buckets, sum, count }) => {
+      this.bounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[index]}`)
+      })
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`)
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`)
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`)
+    })
+    return lines
+  }
+}
+
+function createMetrics() {
+  return {
+    /** Client-reported phases of a voice turn, see `lib/turn-timing.ts` */
+    turnPhase: new Histogram("gawin_turn_phase_seconds", "Duration of each phase of a voice turn, reported by the client"),
+    chatRequests: new Counter("gawin_chat_requests_total", "Chat requests by outcome"),
+    chatFirstToken: new Histogram("gawin_chat_first_token_seconds", "Time from receiving a chat request to the first text"),
+    chatDuration: new Histogram("gawin_chat_duration_seconds", "Time from receiving a chat request to the end of the reply"),
+    chatTokens: new Counter("gawin_chat_tokens_total", "Model tokens used by chat replies"),
+  }
+}
+
+export type Metrics = ReturnType<typeof createMetrics>
+
+// Cached on globalThis so counts survive hot reloads in development
+const globalForMetrics = globalThis as unknown as { metrics?: Metrics }
+
+/** The process-wide metrics. They are per instance; Prometheus sums across instances. */
+export function getMetrics() {
+  globalForMetrics.metrics ??= createMetrics()
+  return globalForMetrics.metrics
+}
+
+/** Renders every metric in the Prometheus text exposition format. */
+export function renderMetrics(metrics: Metrics = getMetrics()) {
+  const metricList: Metric[] = Object.values(metrics)
+  return metricList.flatMap((metric) => metric.render()).join("\n") + "\n"
+}
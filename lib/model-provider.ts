@@ -0,0 +1,112 @@
+import { createOpenAI } from "@ai-sdk/openai"
+import type { LanguageModel } from "ai"
+import { z } from "zod"
+import { createEchoModel } from "./echo-model"
+import { parseConfig, parseJsonEnv } from "./env-config"
+
+const modelParametersSchema = z.object({
+  temperature: z.coerce.number().min(0).max(2).default(0.7),
+  maxOutputTokens: z.coerce.number().int().positive().default(150),
+})
+
+export type ModelParameters = z.infer<typeof modelParametersSchema>
+
+const personaOverridesSchema = z
+  .object({
+    model: z.string().min(1),
+    temperature: z.number().min(0).max(2),
+    maxOutputTokens: z.number().int().positive(),
+  })
+  .partial()
+  .strict()
+
+export type ModelOverrides = z.infer<typeof personaOverridesSchema>
+
+const chatModelConfigSchema = z
+  .object({
+    provider: z.enum(["openai", "openai-compatible", "echo"]).default("openai"),
+    model: z.string().min(1).default("gpt-4o-mini"),
+    baseURL: z.string().url().optional(),
+    apiKey: z.string().min(1).optional(),
+    parameters: modelParametersSchema,
+    personas: z.record(personaOverridesSchema).default({}),
+  })
+  .superRefine((config, ctx) => {
+    if (config.provider === "openai-compatible" && !config.baseURL) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["baseURL"],
+        message: "CHAT_BASE_URL is required for the openai-compatible provider",
+      })
+    }
+    if (config.provider === "openai" && !config.apiKey) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["apiKey"],
+        message: "OPENAI_API_KEY (or CHAT_API_KEY) is required for the openai provider",
+      })
+    }
+  })
+
+export type ChatModelConfig = z.infer<typeof chatModelConfigSchema>
+
+export type ChatProvider = ChatModelConfig["provider"]
+
+type ProviderFactory = (config: ChatModelConfig) => (modelId: string) => LanguageModel
+
+const providers: Record<ChatProvider, ProviderFactory> = {
+  openai: (config) => {
+    const provider = createOpenAI({ apiKey: config.apiKey })
+    return (modelId) => provider(modelId)
+  },
+  // llama.cpp, Ollama, vLLM etc. implement Chat Completions but not the Responses API
+  "openai-compatible": (config) => {
+    const provider = createOpenAI({
+      name: "openai-compatible",
+      baseURL: config.baseURL,
+      apiKey: config.apiKey ?? "not-needed",
+    })
+    return (modelId) => provider.chat(modelId)
+  },
+  echo: () => () => createEchoModel(),
+}
+
+function readEnvConfig() {
+  const env = process.env
+  return {
+    provider: env.CHAT_PROVIDER || undefined,
+    model: env.CHAT_MODEL || undefined,
+    baseURL: env.CHAT_BASE_URL || undefined,
+    apiKey: env.CHAT_API_KEY || (env.CHAT_PROVIDER === "openai-compatible" ? undefined : env.OPENAI_API_KEY) || undefined,
+    parameters: {
+      temperature: env.CHAT_TEMPERATURE || undefined,
+      maxOutputTokens: env.CHAT_MAX_OUTPUT_TOKENS || undefined,
+    },
+    // e.g. {"gawin": {"temperature": 0.9, "maxOutputTokens": 200}}
+    personas: parseJsonEnv("chat model", "CHAT_PERSONA_PARAMETERS"),
+  }
+}
+
+let cachedConfig: ChatModelConfig | null = null
+let cachedFactory: ((modelId: string) => LanguageModel) | null = null
+
+/** Parses and validates the chat model configuration from the environment, once per process. */
+export function getChatModelConfig() {
+  cachedConfig ??= parseConfig("chat model", chatModelConfigSchema, readEnvConfig())
+  return cachedConfig
+}
+
+/**
+ * Resolves the model and call parameters for a persona. Overrides are applied in order:
+ * global defaults, then `overrides` (e.g. from a persona profile), then any per-persona
+ * overrides from the environment.
+ */
+export function resolveChatModel(persona?: string, overrides: ModelOverrides = {}) {
+  const config = getChatModelConfig()
+  cachedFactory ??= providers[config.provider](config)
+
+  const envOverrides = persona ? config.personas[persona] ?? {} : {}
+  const { model, ...parameters } = { model: config.model, ...config.parameters, ...overrides, ...envOverrides }
+
+  return { model: cachedFactory(model), parameters: parameters satisfies ModelParameters }
+}
@@ -0,0 +1,103 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises"
+import path from "node:path"
+
+// Keeps a runaway "remember this" loop from growing a notebook without bound
+const MAX_NOTES = 100
+
+export interface Note {
+  text: string
+  createdAt: string
+}
+
+/** Notes are kept per device id, so they outlive individual conversations. */
+export interface NoteStore {
+  list(ownerId: string): Promise<Note[]>
+  add(ownerId: string, text: string): Promise<Note[]>
+  /** Removes the note at `index` (0-based) and returns it, or null if there is none */
+  remove(ownerId: string, index: number): Promise<Note | null>
+}
+
+abstract class BaseNoteStore implements NoteStore {
+  protected abstract read(ownerId: string): Promise<Note[]>
+  protected abstract write(ownerId: string, notes: Note[]): Promise<void>
+
+  list(ownerId: string) {
+    return this.read(ownerId)
+  }
+
+  async add(ownerId: string, text: string) {
+    const notes = [...(await this.read(ownerId)), { text, createdAt: new Date().toISOString() }].slice(-MAX_NOTES)
+    await this.write(ownerId, notes)
+    return notes
+  }
+
+  async remove(ownerId: string, index: number) {
+    const notes = await this.read(ownerId)
+    const [removed] = notes.splice(index, 1)
+    if (!removed) return null
+    await this.write(ownerId, notes)
+    return removed
+  }
+}
+
+export class InMemoryNoteStore extends BaseNoteStore {
+  private notebooks = new Map<string, Note[]>()
+
+  protected async read(ownerId: string) {
+    return [...(this.notebooks.get(ownerId) ?? [])]
+  }
+
+  protected async write(ownerId: string, notes: Note[]) {
+    this.notebooks.set(ownerId, notes)
+  }
+}
+
+/** Stores each device's notes as a JSON file. Owner ids must be validated before reaching here. */
+export class FileNoteStore extends BaseNoteStore {
+  constructor(private directory: string) {
+    super()
+  }
+
+  private filePath(ownerId: string) {
+    return path.join(this.directory, `${ownerId}.json`)
+  }
+
+  protected async read(ownerId: string) {
+    try {
+      return JSON.parse(await readFile(this.filePath(ownerId), "utf8")) as Note[]
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+      throw error
+    }
+  }
+
+  protected async write(ownerId: string, notes: Note[]) {
+    await mkdir(this.directory, { recursive: true })
+    await writeFile(this.filePath(ownerId), JSON.stringify(notes))
+  }
+}
+
+// Cached on globalThis so in-memory notes survive hot reloads in development
+const globalForStore = globalThis as unknown as { noteStore?: NoteStore }
+
+function createNoteStore(): NoteStore {
+  const kind = process.env.NOTE_STORE ?? "memory"
+
+  switch (kind) {
+    case "memory":
+      return new InMemoryNoteStore()
+    case "file":
+      return new FileNoteStore(process.env.NOTE_STORE_DIR ?? path.join(process.cwd(), ".notes"))
+    default:
+      throw new Error(`Unknown NOTE_STORE "${kind}" (expected "memory" or "file")`)
+  }
+}
+
+export function getNoteStore() {
+  globalForStore.noteStore ??= createNoteStore()
+  return globalForStore.noteStore
+}
+
+export function setNoteStore(store: NoteStore) {
+  globalForStore.noteStore = store
+}
@@ -0,0 +1,125 @@
+import { describeDuration, type ScheduledAlert } from "@/lib/alerts"
+import { normalizeWords } from "@/lib/fuzzy-match"
+import { defineCommand, type RegisteredVoiceCommand, type VoiceCommand } from "@/lib/voice-commands"
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  fifteen: 15,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  ninety: 90,
+}
+
+const UNIT_MS: Record<string, number> = {
+  sec: 1000,
+  secs: 1000,
+  second: 1000,
+  seconds: 1000,
+  min: 60_000,
+  mins: 60_000,
+  minute: 60_000,
+  minutes: 60_000,
+  hr: 3_600_000,
+  hrs: 3_600_000,
+  hour: 3_600_000,
+  hours: 3_600_000,
+}
+
+// The same limit the server's timer tool applies
+const MAX_TIMER_MS = 7 * 24 * 3_600_000
+
+/**
+ * Reads a spoken duration such as "5 minutes", "twenty five seconds", "half an hour" or
+ * "an hour and a half". Returns milliseconds, or null if any word isn't part of a duration.
+ */
+export function parseSpokenDuration(text: string) {
+  const words = normalizeWords(text)
+  let total = 0
+  let count: number | null = null
+  let lastUnit: number | null = null
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i]
+    if (/^\d+$/.test(word)) {
+      count = (count ?? 0) + Number(word)
+    } else if (word in NUMBER_WORDS && !(count !== null && (word === "a" || word === "an"))) {
+      // "twenty five" adds up; "a" only counts as one where no number came before
+      count = (count ?? 0) + NUMBER_WORDS[word]
+    } else if (word in UNIT_MS) {
+      if (count === null) return null
+      lastUnit = UNIT_MS[word]
+      total += count * lastUnit
+      count = null
+    } else if (word === "half") {
+      // "half an hour" is half of the unit that follows; "and a half" is half of the one before
+      const next = words[i + 2]
+      if ((words[i + 1] === "a" || words[i + 1] === "an") && next in UNIT_MS) {
+        total += UNIT_MS[next] / 2
+        i += 2
+      } else if (lastUnit !== null && count === 1) {
+        total += lastUnit / 2
+        count = null
+      } else {
+        return null
+      }
+    } else if (word !== "and") {
+      return null
+    }
+  }
+
+  return count === null && total > 0 && total <= MAX_TIMER_MS ? total : null
+}
+
+export interface OfflineIntentActions {
+  /** Sets a timer in this page, the same way the server's timer tool would */
+  scheduleAlert: (alert: ScheduledAlert) => void
+}
+
+/**
+ * What Gawin can still answer without the model: the time, the date and timers ("repeat that"
+ * is always local). Register them while offline; online, the model handles these with its tools.
+ */
+export function createOfflineIntents({ scheduleAlert }: OfflineIntentActions): RegisteredVoiceCommand[] {
+  const timer = defineCommand<number>({
+    id: "offline-timer",
+    phrases: ["set a timer for *", "set timer for *", "start a timer for *", "timer for *"],
+    parse: parseSpokenDuration,
+    run: (delayMs) => {
+      if (!delayMs) return
+      scheduleAlert({ id: crypto.randomUUID(), kind: "timer", label: "", delayMs })
+      return `Timer set for ${describeDuration(delayMs)}.`
+    },
+  })
+
+  const withoutArguments: VoiceCommand[] = [
+    {
+      id: "offline-time",
+      phrases: ["what time is it", "what's the time", "tell me the time", "time", "what time is it now"],
+      run: () => `It's ${new Date().toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })}.`,
+    },
+    {
+      id: "offline-date",
+      phrases: ["what's the date", "what's today's date", "what day is it", "what day is it today", "date", "today's date"],
+      run: () =>
+        `Today is ${new Date().toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric", year: "numeric" })}.`,
+    },
+  ]
+
+  return [...withoutArguments.map((command) => defineCommand(command)), timer]
+}
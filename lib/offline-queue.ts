@@ -0,0 +1,59 @@
+/** A question asked while offline, waiting to be sent. */
+export interface PendingQuestion {
+  id: string
+  text: string
+  /** Epoch milliseconds */
+  askedAt: number
+}
+
+const STORAGE_KEY = "gawin:pending-questions"
+
+// Older questions are probably no longer wanted, and a reply to each would go on for a while
+const MAX_AGE_MS = 24 * 60 * 60 * 1000
+const MAX_QUESTIONS = 10
+
+function isPendingQuestion(value: unknown): value is PendingQuestion {
+  if (typeof value !== "object" || value === null) return false
+  const question = value as Partial<PendingQuestion>
+  return typeof question.id === "string" && typeof question.text === "string" && typeof question.askedAt === "number"
+}
+
+/**
+ * Questions that couldn't be sent, kept in localStorage so they survive a reload while the
+ * connection is down. Oldest first.
+ */
+export class OfflineQuestionQueue {
+  list(now = Date.now()): PendingQuestion[] {
+    let stored: unknown
+    try {
+      stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]")
+    } catch {
+      return []
+    }
+    return Array.isArray(stored)
+      ? stored.filter(isPendingQuestion).filter((question) => now - question.askedAt < MAX_AGE_MS)
+      : []
+  }
+
+  add(text: string) {
+    const question: PendingQuestion = { id: crypto.randomUUID(), text, askedAt: Date.now() }
+    this.write([...this.list(), question].slice(-MAX_QUESTIONS))
+    return question
+  }
+
+  remove(id: string) {
+    this.write(this.list().filter((question) => question.id !== id))
+  }
+
+  clear() {
+    localStorage.removeItem(STORAGE_KEY)
+  }
+
+  private write(questions: PendingQuestion[]) {
+    if (questions.length) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(questions))
+    } else {
+      localStorage.removeItem(STORAGE_KEY)
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import type { LanguageCode } from "./languages"
+import type { VoiceState } from "./voice-state-machine"
+
+export interface PersonaVoice {
+  /** Browser voices to prefer, by name, before falling back to any voice for the language */
+  preferredVoices: readonly string[]
+  /** Voice passed to `/api/speech`; the provider's default when unset */
+  serverVoice?: string
+  /** 0.1-10, 1 is normal speed */
+  rate: number
+  /** 0-2, 1 is the default pitch */
+  pitch: number
+}
+
+export type PersonaColors = Record<VoiceState, string>
+
+/**
+ * What the client needs to present a persona. System prompts and model parameters live in
+ * `persona-instructions.ts` on the server, which is the only place they are applied.
+ */
+export interface Persona {
+  id: string
+  name: string
+  description: string
+  /** Default language for recognition, speech and replies */
+  language: LanguageCode
+  voice: PersonaVoice
+  colors: PersonaColors
+}
+
+const DEFAULT_COLORS: PersonaColors = {
+  idle: "#e5e7eb", // gray with subtle rainbow reflection
+  listening: "#60a5fa", // blue with subtle cyan tint
+  processing: "#f59e0b", // amber with subtle orange tint
+  speaking: "#10b981", // emerald with subtle teal tint
+}
+
+export const PERSONAS = [
+  {
+    id: "gawin",
+    name: "Gawin",
+    description: "Friendly everyday assistant",
+    language: "en-US",
+    voice: { preferredVoices: ["Google US English", "Samantha"], rate: 1, pitch: 1 },
+    colors: DEFAULT_COLORS,
+  },
+  {
+    id: "guro",
+    name: "Guro",
+    description: "Patient tutor who explains things step by step",
+    language: "en-US",
+    voice: { preferredVoices: ["Google UK English Female", "Karen"], serverVoice: "nova", rate: 0.9, pitch: 1 },
+    colors: { idle: "#ede9fe", listening: "#a78bfa", processing: "#f472b6", speaking: "#8b5cf6" },
+  },
+  {
+    id: "coach",
+    name: "Coach",
+    description: "Upbeat motivator for workouts and focus sessions",
+    language: "en-US",
+    voice: { preferredVoices: ["Google US English", "Alex"], serverVoice: "echo", rate: 1.15, pitch: 1.1 },
+    colors: { idle: "#fee2e2", listening: "#fb923c", processing: "#facc15", speaking: "#ef4444" },
+  },
+] as const satisfies readonly Persona[]
+
+export type PersonaId = (typeof PERSONAS)[number]["id"]
+
+export const DEFAULT_PERSONA_ID: PersonaId = "gawin"
+
+export function isPersonaId(value: unknown): value is PersonaId {
+  return PERSONAS.some((persona) => persona.id === value)
+}
+
+/** Looks up a persona, falling back to the default for unknown or missing ids. */
+export function getPersona(id?: string | null): Persona {
+  return PERSONAS.find((persona) => persona.id === id) ?? PERSONAS.find((persona) => persona.id === DEFAULT_PERSONA_ID)!
+}
@@ -0,0 +1,161 @@
+import { z } from "zod"
+import { parseConfig } from "./env-config"
+
+/**
+ * Where request counts live. The in-memory store is per process; a shared store (Redis, a
+ * database) makes limits hold across instances.
+ */
+export interface RateLimitStore {
+  /**
+   * Adds one to the counter at `key` and returns the new count, as a single atomic step so
+   * concurrent requests are all counted. A new counter expires after `ttlMs` (in Redis: `INCR`,
+   * then `PEXPIRE` when it returns 1).
+   */
+  increment(key: string, ttlMs: number): Promise<number>
+}
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; expiresAt: number }>()
+
+  async increment(key: string, ttlMs: number) {
+    const now = Date.now()
+    let counter = this.counters.get(key)
+    if (!counter || counter.expiresAt <= now) {
+      counter = { count: 0, expiresAt: now + ttlMs }
+      this.counters.set(key, counter)
+      this.prune(now)
+    }
+    return ++counter.count
+  }
+
+  // Expired counters carry no information, so they are dropped as new ones are created
+  private prune(now: number) {
+    if (this.counters.size % 100 !== 0) return
+    this.counters.forEach((counter, key) => {
+      if (counter.expiresAt <= now) this.counters.delete(key)
+    })
+  }
+}
+
+export interface RateLimitPolicy {
+  /** Requests allowed in a burst; 0 disables limiting */
+  burst: number
+  /** Sustained requests per minute */
+  perMinute: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  /** Milliseconds until the next request would be allowed; 0 when allowed */
+  retryAfterMs: number
+}
+
+// Windows for a policy that never refills
+const NO_REFILL_WINDOW_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Fixed window: each client gets `burst` requests per window, and the window is as long as
+ * `perMinute` takes to allow `burst`, so the sustained rate is `perMinute`. Counting is a single
+ * store increment, which keeps it exact with a shared store and concurrent requests.
+ */
+export class RateLimiter {
+  constructor(
+    private policy: RateLimitPolicy,
+    private store: RateLimitStore = new InMemoryRateLimitStore(),
+    /** Keeps this limiter's counters apart from other limiters sharing the store */
+    private scope = "default",
+  ) {}
+
+  async consume(key: string, now = Date.now()): Promise<RateLimitResult> {
+    const { burst, perMinute } = this.policy
+    if (burst <= 0) {
+      return { allowed: true, remaining: Infinity, retryAfterMs: 0 }
+    }
+
+    const windowMs = perMinute > 0 ? Math.ceil((burst / perMinute) * 60000) : NO_REFILL_WINDOW_MS
+    const windowStart = Math.floor(now / windowMs) * windowMs
+    const count = await this.store.increment(`${this.scope}:${key}:${windowStart}`, windowMs)
+
+    if (count > burst) {
+      return { allowed: false, remaining: 0, retryAfterMs: windowStart + windowMs - now }
+    }
+    return { allowed: true, remaining: burst - count, retryAfterMs: 0 }
+  }
+}
+
+const rateLimitConfigSchema = (defaults: RateLimitPolicy) =>
+  z.object({
+    burst: z.coerce.number().int().min(0).default(defaults.burst),
+    perMinute: z.coerce.number().min(0).default(defaults.perMinute),
+  })
+
+// Cached on globalThis so counts survive hot reloads in development
+const globalForLimiter = globalThis as unknown as {
+  rateLimiters?: Map<string, RateLimiter>
+  rateLimitStore?: RateLimitStore
+}
+
+/** One limiter per route, configured from `<PREFIX>_RATE_LIMIT_BURST` and `<PREFIX>_RATE_LIMIT_PER_MINUTE`. */
+function getRateLimiter(prefix: string, defaults: RateLimitPolicy) {
+  globalForLimiter.rateLimiters ??= new Map()
+  let limiter = globalForLimiter.rateLimiters.get(prefix)
+  if (!limiter) {
+    const policy = parseConfig(`${prefix.toLowerCase()} rate limit`, rateLimitConfigSchema(defaults), {
+      burst: process.env[`${prefix}_RATE_LIMIT_BURST`] || undefined,
+      perMinute: process.env[`${prefix}_RATE_LIMIT_PER_MINUTE`] || undefined,
+    })
+    limiter = new RateLimiter(policy, globalForLimiter.rateLimitStore, prefix.toLowerCase())
+    globalForLimiter.rateLimiters.set(prefix, limiter)
+  }
+  return limiter
+}
+
+/** The `/api/chat` limiter. */
+export function getChatRateLimiter() {
+  return getRateLimiter("CHAT", { burst: 10, perMinute: 10 })
+}
+
+/** The `/api/transcribe` limiter; one request per utterance, so the same pace as chat. */
+export function getTranscribeRateLimiter() {
+  return getRateLimiter("TRANSCRIBE", { burst: 10, perMinute: 10 })
+}
+
+/** The `/api/speech` limiter; each sentence of a reply is its own request, so it allows more. */
+export function getSpeechRateLimiter() {
+  return getRateLimiter("SPEECH", { burst: 60, perMinute: 60 })
+}
+
+/** The `/api/metrics` limiter; one timing report per turn, with room for turns that never reach chat. */
+export function getMetricsRateLimiter() {
+  return getRateLimiter("METRICS", { burst: 20, perMinute: 20 })
+}
+
+/** Replaces the counter store, e.g. with a Redis-backed `RateLimitStore`, before the first request. */
+export function setRateLimitStore(store: RateLimitStore) {
+  globalForLimiter.rateLimitStore = store
+  globalForLimiter.rateLimiters?.clear()
+}
+
+const trustedProxyHopsSchema = z.coerce.number().int().min(0).default(1)
+
+/**
+ * Identifies the caller by IP. The hosting platform's client IP is used when it provides one
+ * (Vercel does). Otherwise the IP comes from `X-Forwarded-For`, counting `TRUSTED_PROXY_HOPS`
+ * (default 1) entries from the right: each trusted proxy appends the address it saw, and
+ * anything further left was sent by the client and could be anything. With no proxy in front
+ * (0 hops) or no header, all callers share one limit.
+ */
+export function getClientKey(req: Request) {
+  const platformIp = (req as Request & { ip?: string }).ip
+  if (platformIp) return platformIp
+
+  const hops = parseConfig("trusted proxy", trustedProxyHopsSchema, process.env.TRUSTED_PROXY_HOPS || undefined)
+  const entries = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+  // Fewer entries than trusted hops means the first proxy saw the client directly
+  const client = hops > 0 ? entries[Math.max(0, entries.length - hops)] : undefined
+  return client || "anonymous"
+}
@@ -0,0 +1,96 @@
+export type QualityTier = "low" | "medium" | "high"
+
+/** Lowest first, so stepping is a move along the array. */
+export const QUALITY_TIERS: readonly QualityTier[] = ["low", "medium", "high"]
+
+export interface QualitySettings {
+  /** Device pixel ratio cap for the canvas */
+  dpr: number
+  /** `MeshTransmissionMaterial` refraction samples */
+  samples: number
+  /** Size of the transmission render target */
+  resolution: number
+  /** Render the back faces too; doubles the transmission passes */
+  backside: boolean
+  /** Segments per rounded edge of the cube */
+  smoothness: number
+}
+
+export const QUALITY_SETTINGS: Record<QualityTier, QualitySettings> = {
+  low: { dpr: 1, samples: 4, resolution: 256, backside: false, smoothness: 2 },
+  medium: { dpr: 1.5, samples: 10, resolution: 512, backside: true, smoothness: 3 },
+  high: { dpr: 2, samples: 32, resolution: 1024, backside: true, smoothness: 4 },
+}
+
+export interface DeviceCapabilities {
+  /** Logical CPU cores */
+  cores?: number
+  /** Approximate RAM in GB; only Chromium reports it */
+  memoryGb?: number
+  /** Touch-first devices are usually phones and tablets with small GPUs */
+  coarsePointer?: boolean
+  /** The user asked to save data, which usually also means a modest device */
+  saveData?: boolean
+  /** Unmasked GPU name, when the browser shares it */
+  gpu?: string
+}
+
+// Software renderers draw every pixel on the CPU
+const SOFTWARE_GPU = /swiftshader|llvmpipe|software|basic render/i
+const INTEGRATED_GPU = /intel|mali|adreno|powervr|apple gpu|videocore/i
+
+/** Picks the starting tier; the FPS monitor adjusts from there. */
+export function detectQualityTier({ cores, memoryGb, coarsePointer, saveData, gpu }: DeviceCapabilities): QualityTier {
+  const atMost = (value: number | undefined, limit: number) => value !== undefined && value <= limit
+
+  if (saveData || (gpu && SOFTWARE_GPU.test(gpu)) || atMost(cores, 2) || atMost(memoryGb, 2)) return "low"
+  if (coarsePointer || (gpu && INTEGRATED_GPU.test(gpu)) || atMost(cores, 4) || atMost(memoryGb, 4)) return "medium"
+  return "high"
+}
+
+/** Moves `steps` tiers up (positive) or down (negative), stopping at either end. */
+export function stepQualityTier(tier: QualityTier, steps: number) {
+  const index = QUALITY_TIERS.indexOf(tier) + steps
+  return QUALITY_TIERS[Math.min(QUALITY_TIERS.length - 1, Math.max(0, index))]
+}
+
+function createWebGLContext() {
+  const canvas = document.createElement("canvas")
+  return (canvas.getContext("webgl2") ?? canvas.getContext("webgl")) as WebGLRenderingContext | null
+}
+
+/** Whether a WebGL context can be created at all; blocklisted GPUs and disabled acceleration can't. */
+export function isWebGLAvailable() {
+  try {
+    const context = createWebGLContext()
+    context?.getExtension("WEBGL_lose_context")?.loseContext()
+    return context !== null
+  } catch {
+    return false
+  }
+}
+
+/** Reads what the browser is willing to say about the device. */
+export function readDeviceCapabilities(): DeviceCapabilities {
+  const nav = navigator as Navigator & { deviceMemory?: number; connection?: { saveData?: boolean } }
+  let gpu: string | undefined
+
+  try {
+    const context = createWebGLContext()
+    const info = context?.getExtension("WEBGL_debug_renderer_info")
+    if (context && info) {
+      gpu = String(context.getParameter(info.UNMASKED_RENDERER_WEBGL))
+    }
+    context?.getExtension("WEBGL_lose_context")?.loseContext()
+  } catch {
+    // Some browsers hide the renderer or throw for privacy; the other signals still apply
+  }
+
+  return {
+    cores: nav.hardwareConcurrency || undefined,
+    memoryGb: nav.deviceMemory,
+    coarsePointer: window.matchMedia("(pointer: coarse)").matches,
+    saveData: nav.connection?.saveData,
+    gpu,
+  }
+}
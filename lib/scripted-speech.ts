@@ -0,0 +1,271 @@
+import type {
+  ReplySpeechOptions,
+  SpeechEngineKind,
+  SpeechInputEngine,
+  SpeechInputHandlers,
+  SpeechInputSettings,
+  SpeechOutputEngine,
+} from "./speech-engine"
+import { SentenceSegmenter, type ReplySpeech } from "./speech-queue"
+
+export interface ScriptedSpeechRecognitionOptions {
+  /** Speaking pace for the simulated words */
+  wordsPerMinute?: number
+  /** Time to "open the microphone" */
+  startDelayMs?: number
+  /** Silence after the last word before a continuous session ends by itself */
+  endSilenceMs?: number
+  /** How long to wait before giving up with "no-speech" once the script has run out */
+  noSpeechTimeoutMs?: number
+}
+
+interface ScriptedSession {
+  settings: SpeechInputSettings
+  handlers: SpeechInputHandlers
+  heard: string
+  delivered: boolean
+}
+
+/**
+ * Speech input that "hears" each scripted turn in order, one word at a time at a speaking
+ * pace, so the whole pipeline runs without a microphone: in demos, in headless browsers, or
+ * from a test that calls `say()`. Each `start()` uses up one turn.
+ */
+export class ScriptedSpeechRecognition implements SpeechInputEngine {
+  readonly kind: SpeechEngineKind = "scripted"
+  readonly streaming = true
+
+  private turns: string[]
+  private session: ScriptedSession | null = null
+  private timers: ReturnType<typeof setTimeout>[] = []
+
+  constructor(
+    turns: readonly string[] = [],
+    private options: ScriptedSpeechRecognitionOptions = {},
+  ) {
+    this.turns = [...turns]
+  }
+
+  /** Turns not heard yet */
+  get remaining(): readonly string[] {
+    return this.turns
+  }
+
+  /** Adds turns to the end of the script. */
+  say(...turns: string[]) {
+    this.turns.push(...turns.map((turn) => turn.trim()).filter(Boolean))
+  }
+
+  start(settings: SpeechInputSettings, handlers: SpeechInputHandlers) {
+    if (this.session) {
+      throw new Error("Recognition has already started")
+    }
+
+    const { wordsPerMinute = 150, startDelayMs = 300, noSpeechTimeoutMs = 5000 } = this.options
+    const session: ScriptedSession = { settings, handlers, heard: "", delivered: false }
+    this.session = session
+
+    this.after(startDelayMs, () => {
+      handlers.onStart?.()
+
+      const turn = this.turns.shift()
+      if (turn === undefined) {
+        this.after(noSpeechTimeoutMs, () => {
+          handlers.onError?.("no-speech")
+          this.end()
+        })
+        return
+      }
+
+      const words = turn.split(/\s+/)
+      const msPerWord = 60_000 / wordsPerMinute
+      words.forEach((_, index) =>
+        this.after(msPerWord * (index + 1), () => {
+          session.heard = words.slice(0, index + 1).join(" ")
+          if (index === words.length - 1) {
+            this.finishUtterance(session)
+          } else if (settings.interimResults || settings.continuous) {
+            handlers.onResult?.([{ transcript: session.heard, isFinal: false }], 0)
+          }
+        }),
+      )
+    })
+  }
+
+  stop() {
+    const session = this.session
+    if (!session) return
+    this.clearTimers()
+    this.deliver(session)
+    this.end()
+  }
+
+  abort() {
+    if (!this.session) return
+    this.clearTimers()
+    this.end()
+  }
+
+  /** Like a recognizer, ends at once unless continuous, where it waits for a stop() or a pause. */
+  private finishUtterance(session: ScriptedSession) {
+    this.deliver(session)
+    if (session.settings.continuous) {
+      this.after(this.options.endSilenceMs ?? 800, () => this.end())
+    } else {
+      this.end()
+    }
+  }
+
+  private deliver(session: ScriptedSession) {
+    if (session.delivered || !session.heard) return
+    session.delivered = true
+    session.handlers.onResult?.([{ transcript: session.heard, isFinal: true }], 0)
+  }
+
+  private after(delayMs: number, callback: () => void) {
+    this.timers.push(setTimeout(callback, delayMs))
+  }
+
+  private clearTimers() {
+    this.timers.forEach((timer) => clearTimeout(timer))
+    this.timers = []
+  }
+
+  private end() {
+    const session = this.session
+    if (!session) return
+    this.clearTimers()
+    this.session = null
+    session.handlers.onEnd?.()
+  }
+}
+
+export interface ScriptedSpeechSynthesisOptions {
+  /** Speaking pace at a voice rate of 1 */
+  wordsPerMinute?: number
+  /** Called with each segment as it "plays", e.g. to log replies in a headless run */
+  onSegment?: (text: string) => void
+}
+
+/** A reply "spoken" on timers, one segment at a time, with no audio. */
+class ScriptedReply implements ReplySpeech {
+  private segmenter = new SentenceSegmenter()
+  private queue: string[] = []
+  private spoken: string[] = []
+  private current: { text: string; startedAt: number; durationMs: number } | null = null
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private started = false
+  private ended = false
+  private cancelled = false
+
+  constructor(
+    private options: ReplySpeechOptions,
+    private msPerWord: number,
+    private onSegment?: (text: string) => void,
+  ) {}
+
+  get isCancelled() {
+    return this.cancelled
+  }
+
+  /** Estimated from elapsed time, cut at a word boundary */
+  get spokenText() {
+    const parts = [...this.spoken]
+    if (this.current) {
+      const { text, startedAt, durationMs } = this.current
+      const progress = Math.min(1, (performance.now() - startedAt) / durationMs)
+      const cut = text.lastIndexOf(" ", Math.floor(text.length * progress))
+      parts.push(progress >= 1 ? text : text.slice(0, Math.max(cut, 0)))
+    }
+    return parts.filter(Boolean).join(" ")
+  }
+
+  write(text: string) {
+    this.segmenter.push(text).forEach((segment) => this.enqueue(segment))
+  }
+
+  end() {
+    if (this.ended) return
+    this.segmenter.flush().forEach((segment) => this.enqueue(segment))
+    this.ended = true
+    this.checkDrained()
+  }
+
+  cancel() {
+    if (this.cancelled) return
+    this.cancelled = true
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+  }
+
+  private enqueue(text: string) {
+    if (this.cancelled) return
+    this.queue.push(text)
+    this.playNext()
+  }
+
+  private playNext() {
+    if (this.current || this.cancelled) return
+
+    const text = this.queue.shift()
+    if (text === undefined) {
+      this.checkDrained()
+      return
+    }
+
+    // Called for each segment, as a real engine would, so the reply language is still tracked
+    this.options.languageFor(text)
+    const durationMs = (text.split(/\s+/).length * this.msPerWord) / this.options.voice.rate
+    this.current = { text, startedAt: performance.now(), durationMs }
+    this.options.onSegmentStart?.(text)
+    this.onSegment?.(text)
+    if (!this.started) {
+      this.started = true
+      this.options.onStart?.()
+    }
+
+    this.timer = setTimeout(() => {
+      this.spoken.push(text)
+      this.current = null
+      this.timer = null
+      this.playNext()
+    }, durationMs)
+  }
+
+  private checkDrained() {
+    if (this.ended && !this.cancelled && !this.current && this.queue.length === 0) {
+      this.options.onDrain?.()
+    }
+  }
+}
+
+/** Speech output that takes as long as speaking would but makes no sound. */
+export class ScriptedSpeechSynthesis implements SpeechOutputEngine {
+  readonly kind: SpeechEngineKind = "scripted"
+
+  private replies = new Set<ReplySpeech>()
+
+  constructor(private options: ScriptedSpeechSynthesisOptions = {}) {}
+
+  createReply(options: ReplySpeechOptions) {
+    const { wordsPerMinute = 180, onSegment } = this.options
+    const reply = new ScriptedReply(
+      {
+        ...options,
+        onDrain: () => {
+          this.replies.delete(reply)
+          options.onDrain?.()
+        },
+      },
+      60_000 / wordsPerMinute,
+      onSegment,
+    )
+    this.replies.add(reply)
+    return reply
+  }
+
+  cancel() {
+    this.replies.forEach((reply) => reply.cancel())
+    this.replies.clear()
+  }
+}
@@ -0,0 +1,199 @@
+import type { SpeechEngineKind, SpeechInputEngine, SpeechInputHandlers, SpeechInputSettings } from "./speech-engine"
+
+// Preferred first; Chrome and Firefox record WebM/Opus, Firefox also Ogg/Opus
+const MIME_TYPES = ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/webm", "audio/ogg"]
+
+// RMS of the time-domain signal above which we assume someone is talking
+const SPEECH_RMS = 0.04
+const END_SILENCE_MS = 1200
+const NO_SPEECH_TIMEOUT_MS = 6000
+const MAX_RECORDING_MS = 15000
+const POLL_INTERVAL_MS = 100
+
+function pickMimeType() {
+  return MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type))
+}
+
+async function uploadRecording(audio: Blob, language: string) {
+  const form = new FormData()
+  form.append("audio", audio, `speech.${audio.type.includes("ogg") ? "ogg" : "webm"}`)
+  form.append("language", language)
+
+  const response = await fetch("/api/transcribe", { method: "POST", body: form })
+  if (!response.ok) {
+    throw new Error(`Transcription failed with status ${response.status}`)
+  }
+
+  const { text }: { text: string } = await response.json()
+  return text.trim()
+}
+
+/**
+ * Record-and-upload speech input for browsers that lack the Web Speech API (Firefox, many
+ * webviews). Records one utterance with MediaRecorder, ends it after a pause, and transcribes
+ * it through `/api/transcribe`. There are no interim results.
+ */
+export class ServerSpeechRecognition implements SpeechInputEngine {
+  static isSupported() {
+    return (
+      typeof MediaRecorder !== "undefined" &&
+      typeof navigator.mediaDevices?.getUserMedia === "function" &&
+      pickMimeType() !== undefined
+    )
+  }
+
+  readonly kind: SpeechEngineKind = "server"
+  readonly streaming = false
+
+  private settings: SpeechInputSettings = { lang: "en-US", continuous: false, interimResults: false }
+  private handlers: SpeechInputHandlers = {}
+  private active = false
+  // Waiting on the microphone permission prompt, before anything has been recorded
+  private starting = false
+  private discard = false
+  private recorder: MediaRecorder | null = null
+  private stream: MediaStream | null = null
+  private audioContext: AudioContext | null = null
+  private timer: ReturnType<typeof setInterval> | null = null
+
+  start(settings: SpeechInputSettings, handlers: SpeechInputHandlers) {
+    if (this.active) {
+      throw new Error("Recognition has already started")
+    }
+
+    this.settings = settings
+    this.handlers = handlers
+    this.active = true
+    this.starting = true
+    this.discard = false
+    this.begin().catch((error) => {
+      console.error("Failed to start recording:", error)
+      this.starting = false
+      this.release()
+      this.handlers.onError?.("audio-capture")
+      this.end()
+    })
+  }
+
+  /** Stops recording and transcribes what was captured; an upload already in flight carries on. */
+  stop() {
+    if (this.recorder?.state === "recording") {
+      this.recorder.stop()
+    } else if (this.starting) {
+      // Nothing has been recorded yet, so there is nothing to transcribe
+      this.discard = true
+    }
+  }
+
+  /** Stops recording and throws the audio away. */
+  abort() {
+    this.discard = true
+    this.stop()
+  }
+
+  private async begin() {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+    })
+    this.stream = stream
+    this.starting = false
+
+    if (this.discard) {
+      this.release()
+      this.end()
+      return
+    }
+
+    const mimeType = pickMimeType()!
+    const chunks: Blob[] = []
+    const recorder = new MediaRecorder(stream, { mimeType })
+    recorder.ondataavailable = (event) => chunks.push(event.data)
+    recorder.onstop = () => this.finish(new Blob(chunks, { type: mimeType }))
+    this.recorder = recorder
+
+    recorder.start()
+    this.watchLevels(stream)
+    this.handlers.onStart?.()
+  }
+
+  /** Ends the utterance after a pause (unless `continuous`), or gives up if nobody speaks. */
+  private watchLevels(stream: MediaStream) {
+    this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)()
+    const analyser = this.audioContext.createAnalyser()
+    analyser.fftSize = 1024
+    this.audioContext.createMediaStreamSource(stream).connect(analyser)
+
+    const samples = new Float32Array(analyser.fftSize)
+    const startedAt = performance.now()
+    let lastSpeechAt: number | null = null
+
+    this.timer = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples)
+      const rms = Math.sqrt(samples.reduce((sum, value) => sum + value * value, 0) / samples.length)
+      const now = performance.now()
+
+      if (rms > SPEECH_RMS) {
+        lastSpeechAt = now
+      }
+
+      const noSpeech = lastSpeechAt === null && now - startedAt > NO_SPEECH_TIMEOUT_MS
+      // In continuous mode the caller decides when the utterance is over and calls stop()
+      const paused = !this.settings.continuous && lastSpeechAt !== null && now - lastSpeechAt > END_SILENCE_MS
+      if (!noSpeech && !paused && now - startedAt <= MAX_RECORDING_MS) return
+
+      this.stopWatching()
+      if (noSpeech) {
+        this.handlers.onError?.("no-speech")
+        this.abort()
+      } else {
+        this.stop()
+      }
+    }, POLL_INTERVAL_MS)
+  }
+
+  private async finish(audio: Blob) {
+    this.release()
+
+    if (!this.discard) {
+      try {
+        const text = await uploadRecording(audio, this.settings.lang)
+        // abort() may have been called while the upload was in flight
+        if (this.discard) {
+          return this.end()
+        }
+
+        if (text) {
+          this.handlers.onResult?.([{ transcript: text, isFinal: true }], 0)
+        } else {
+          this.handlers.onError?.("no-speech")
+        }
+      } catch (error) {
+        console.error("Failed to transcribe recording:", error)
+        this.handlers.onError?.("network")
+      }
+    }
+
+    this.end()
+  }
+
+  private stopWatching() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  private release() {
+    this.stopWatching()
+    this.stream?.getTracks().forEach((track) => track.stop())
+    this.stream = null
+    this.audioContext?.close()
+    this.audioContext = null
+    this.recorder = null
+  }
+
+  private end() {
+    this.active = false
+    this.handlers.onEnd?.()
+  }
+}
@@ -0,0 +1,136 @@
+import type { AudioOutput } from "@/lib/audio-output"
+import { ServerSpeechSynthesis } from "@/lib/audio-speech-queue"
+import type { PersonaVoice } from "@/lib/personas"
+import { ScriptedSpeechRecognition, ScriptedSpeechSynthesis } from "@/lib/scripted-speech"
+import { ServerSpeechRecognition } from "@/lib/server-speech-recognition"
+import { WebSpeechSynthesis, type ReplySpeech, type SpeechQueueOptions } from "@/lib/speech-queue"
+import { WebSpeechRecognition } from "@/lib/web-speech-recognition"
+
+/**
+ * "browser" is the Web Speech API, "server" records or plays audio through `/api/transcribe`
+ * and `/api/speech`, and "scripted" replays text with simulated timing, for demos and tests.
+ */
+export type SpeechEngineKind = "browser" | "server" | "scripted"
+
+const ENGINE_KINDS: readonly SpeechEngineKind[] = ["browser", "server", "scripted"]
+
+export function isSpeechEngineKind(value: unknown): value is SpeechEngineKind {
+  return ENGINE_KINDS.includes(value as SpeechEngineKind)
+}
+
+export interface SpeechInputResult {
+  transcript: string
+  /** The recognizer won't revise this result any more */
+  isFinal: boolean
+}
+
+export interface SpeechInputSettings {
+  /** BCP 47 language tag */
+  lang: string
+  /** Keep listening through pauses until `stop()`, instead of ending the utterance at the first one */
+  continuous: boolean
+  /** Report partial results while the user is still talking */
+  interimResults: boolean
+}
+
+export interface SpeechInputHandlers {
+  /** The microphone is open */
+  onStart?: () => void
+  /** Every result of this session so far, and the index of the first one that changed */
+  onResult?: (results: SpeechInputResult[], changedIndex: number) => void
+  /** e.g. "no-speech", "not-allowed", "network" */
+  onError?: (error: string) => void
+  /** Called once per `start()`, after any results or errors */
+  onEnd?: () => void
+}
+
+/** Turns speech into text. One recognition session runs at a time. */
+export interface SpeechInputEngine {
+  readonly kind: SpeechEngineKind
+  /** Results arrive while the user is still talking, which passive wake-word listening needs */
+  readonly streaming: boolean
+  /** Throws if a session is already running */
+  start(settings: SpeechInputSettings, handlers: SpeechInputHandlers): void
+  /** Stops listening and delivers what was heard */
+  stop(): void
+  /** Stops listening and throws away what was heard */
+  abort(): void
+}
+
+export interface ReplyVoice extends PersonaVoice {
+  /** 0-1 */
+  volume: number
+}
+
+export interface ReplySpeechOptions extends Pick<SpeechQueueOptions, "onStart" | "onSegmentStart" | "onDrain"> {
+  voice: ReplyVoice
+  /** Picks the language each segment is read in */
+  languageFor: (segment: string) => string
+}
+
+/** Turns reply text into speech as it streams in. */
+export interface SpeechOutputEngine {
+  readonly kind: SpeechEngineKind
+  /** Starts speaking a new reply; one per assistant turn */
+  createReply(options: ReplySpeechOptions): ReplySpeech
+  /** Silences everything this engine is playing */
+  cancel(): void
+}
+
+export interface SpeechEngineConfig {
+  /** Unset picks the Web Speech API where available, and server transcription otherwise */
+  input?: SpeechEngineKind
+  output?: SpeechEngineKind
+  /** Utterances for the scripted input engine, one per turn */
+  script: string[]
+}
+
+function splitScript(script: string | null | undefined) {
+  return (script ?? "")
+    .split("|")
+    .map((turn) => turn.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Engine choice from the URL, then the environment: `?speech=scripted` sets both engines,
+ * `?speechInput=` and `?speechOutput=` set one, and `?script=Hello|What time is it` gives the
+ * scripted turns. The environment equivalents are `NEXT_PUBLIC_SPEECH_INPUT`,
+ * `NEXT_PUBLIC_SPEECH_OUTPUT` and `NEXT_PUBLIC_SPEECH_SCRIPT`.
+ */
+export function readSpeechEngineConfig(search = window.location.search): SpeechEngineConfig {
+  const params = new URLSearchParams(search)
+  const pick = (...values: (string | null | undefined)[]) => values.find(isSpeechEngineKind)
+
+  return {
+    input: pick(params.get("speechInput"), params.get("speech"), process.env.NEXT_PUBLIC_SPEECH_INPUT),
+    output: pick(params.get("speechOutput"), params.get("speech"), process.env.NEXT_PUBLIC_SPEECH_OUTPUT),
+    script: splitScript(params.get("script") ?? process.env.NEXT_PUBLIC_SPEECH_SCRIPT),
+  }
+}
+
+/** Returns null when the requested engine (or, for unset, any engine) can't run in this browser. */
+export function createSpeechInputEngine(kind?: SpeechEngineKind, script: readonly string[] = []): SpeechInputEngine | null {
+  if (kind === "scripted") {
+    return new ScriptedSpeechRecognition(script)
+  }
+  if (kind !== "server" && WebSpeechRecognition.isSupported()) {
+    return new WebSpeechRecognition()
+  }
+  // Unset falls back to recording and transcribing on the server where the Web Speech API is missing
+  if (kind !== "browser" && ServerSpeechRecognition.isSupported()) {
+    return new ServerSpeechRecognition()
+  }
+  return null
+}
+
+/** Server speech needs `audioOutput`; until it exists, browser speech is used. */
+export function createSpeechOutputEngine(kind?: SpeechEngineKind, audioOutput?: AudioOutput | null): SpeechOutputEngine | null {
+  if (kind === "scripted") {
+    return new ScriptedSpeechSynthesis()
+  }
+  if (kind === "server" && audioOutput) {
+    return new ServerSpeechSynthesis(audioOutput)
+  }
+  return WebSpeechSynthesis.isSupported() ? new WebSpeechSynthesis(window.speechSynthesis) : null
+}
@@ -0,0 +1,179 @@
+import { spawn } from "node:child_process"
+import { createOpenAI } from "@ai-sdk/openai"
+import { experimental_generateSpeech as generateSpeech } from "ai"
+import { z } from "zod"
+import { parseConfig } from "./env-config"
+
+export interface SpeechRequest {
+  text: string
+  /** Provider-specific voice name */
+  voice?: string
+  /** BCP 47 tag such as "en-US" */
+  language?: string
+  /** Playback rate multiplier, 1 is normal speed */
+  speed?: number
+  abortSignal?: AbortSignal
+}
+
+export interface SpeechAudio {
+  audio: Uint8Array
+  mimeType: string
+}
+
+export interface SpeechProvider {
+  synthesize(request: SpeechRequest): Promise<SpeechAudio>
+}
+
+const speechConfigSchema = z
+  .object({
+    provider: z.enum(["openai", "espeak", "mock"]).default("openai"),
+    model: z.string().min(1).default("tts-1"),
+    voice: z.string().min(1).default("alloy"),
+    apiKey: z.string().min(1).optional(),
+    espeakBinary: z.string().min(1).default("espeak-ng"),
+  })
+  .superRefine((config, ctx) => {
+    if (config.provider === "openai" && !config.apiKey) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["apiKey"],
+        message: "OPENAI_API_KEY (or TTS_API_KEY) is required for the openai provider",
+      })
+    }
+  })
+
+export type SpeechConfig = z.infer<typeof speechConfigSchema>
+
+// espeak's default speaking rate, in words per minute
+const ESPEAK_WPM = 175
+
+/** Runs espeak with the text on stdin (so it can never be read as a flag) and collects the WAV it writes. */
+function runEspeak(binary: string, args: string[], text: string, signal?: AbortSignal) {
+  return new Promise<Uint8Array>((resolve, reject) => {
+    const child = spawn(binary, [...args, "--stdin", "--stdout"], { signal })
+    const chunks: Buffer[] = []
+    const errors: Buffer[] = []
+
+    child.stdout.on("data", (chunk: Buffer) => chunks.push(chunk))
+    child.stderr.on("data", (chunk: Buffer) => errors.push(chunk))
+    child.on("error", reject)
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(new Uint8Array(Buffer.concat(chunks)))
+      } else {
+        reject(new Error(`${binary} exited with code ${code}: ${Buffer.concat(errors).toString().trim()}`))
+      }
+    })
+
+    child.stdin.end(text)
+  })
+}
+
+function encodeWav(samples: Float32Array, sampleRate: number) {
+  const buffer = Buffer.alloc(44 + samples.length * 2)
+  buffer.write("RIFF", 0)
+  buffer.writeUInt32LE(36 + samples.length * 2, 4)
+  buffer.write("WAVE", 8)
+  buffer.write("fmt ", 12)
+  buffer.writeUInt32LE(16, 16) // fmt chunk size
+  buffer.writeUInt16LE(1, 20) // PCM
+  buffer.writeUInt16LE(1, 22) // mono
+  buffer.writeUInt32LE(sampleRate, 24)
+  buffer.writeUInt32LE(sampleRate * 2, 28) // byte rate
+  buffer.writeUInt16LE(2, 32) // block align
+  buffer.writeUInt16LE(16, 34) // bits per sample
+  buffer.write("data", 36)
+  buffer.writeUInt32LE(samples.length * 2, 40)
+
+  samples.forEach((sample, i) => {
+    buffer.writeInt16LE(Math.round(Math.max(-1, Math.min(1, sample)) * 0x7fff), 44 + i * 2)
+  })
+  return new Uint8Array(buffer)
+}
+
+/**
+ * Hums one tone burst per word, timed roughly like speech, so playback and the visuals can be
+ * exercised without a real voice.
+ */
+function synthesizeTone(text: string, speed = 1) {
+  const sampleRate = 16000
+  const words = text.split(/\s+/).filter(Boolean)
+  const wordSeconds = 0.3 / speed
+  const samples = new Float32Array(Math.ceil(Math.max(words.length, 1) * wordSeconds * sampleRate))
+
+  words.forEach((word, index) => {
+    const start = Math.floor(index * wordSeconds * sampleRate)
+    const length = Math.floor(wordSeconds * sampleRate * 0.8)
+    const frequency = 180 + (word.length % 6) * 30
+
+    for (let i = 0; i < length; i++) {
+      const envelope = Math.sin((Math.PI * i) / length)
+      samples[start + i] = 0.4 * envelope * Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+    }
+  })
+
+  return encodeWav(samples, sampleRate)
+}
+
+const providers: Record<SpeechConfig["provider"], (config: SpeechConfig) => SpeechProvider> = {
+  openai: (config) => {
+    const model = createOpenAI({ apiKey: config.apiKey }).speech(config.model)
+    return {
+      async synthesize({ text, voice, speed, abortSignal }) {
+        const { audio } = await generateSpeech({
+          model,
+          text,
+          voice: voice ?? config.voice,
+          speed,
+          outputFormat: "mp3",
+          abortSignal,
+        })
+        return { audio: audio.uint8Array, mimeType: audio.mediaType }
+      },
+    }
+  },
+
+  espeak: (config) => ({
+    async synthesize({ text, voice, language, speed = 1, abortSignal }) {
+      const args = ["-s", String(Math.round(ESPEAK_WPM * speed))]
+      const espeakVoice = voice ?? language?.toLowerCase()
+      if (espeakVoice) {
+        args.push("-v", espeakVoice)
+      }
+
+      const audio = await runEspeak(config.espeakBinary, args, text, abortSignal)
+      return { audio, mimeType: "audio/wav" }
+    },
+  }),
+
+  mock: () => ({
+    async synthesize({ text, speed }) {
+      return { audio: synthesizeTone(text, speed), mimeType: "audio/wav" }
+    },
+  }),
+}
+
+function readEnvConfig() {
+  const env = process.env
+  return {
+    provider: env.TTS_PROVIDER || undefined,
+    model: env.TTS_MODEL || undefined,
+    voice: env.TTS_VOICE || undefined,
+    apiKey: env.TTS_API_KEY || env.OPENAI_API_KEY || undefined,
+    espeakBinary: env.TTS_ESPEAK_BINARY || undefined,
+  }
+}
+
+let cachedConfig: SpeechConfig | null = null
+let cachedProvider: SpeechProvider | null = null
+
+/** Parses and validates the text-to-speech configuration from the environment, once per process. */
+export function getSpeechConfig() {
+  cachedConfig ??= parseConfig("text-to-speech", speechConfigSchema, readEnvConfig())
+  return cachedConfig
+}
+
+export function getSpeechProvider() {
+  cachedProvider ??= providers[getSpeechConfig().provider](getSpeechConfig())
+  return cachedProvider
+}
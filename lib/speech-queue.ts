@@ -0,0 +1,225 @@
+import type { ReplySpeechOptions, SpeechEngineKind, SpeechOutputEngine } from "./speech-engine"
+import { selectVoice } from "./speech-voices"
+
+// Sentence punctuation (plus closing quotes/brackets) that is already followed by whitespace,
+// so "3." in a streamed "3.5" is not mistaken for the end of a sentence
+const SENTENCE_BOUNDARY = /[.!?…]+["'”’)\]]*(?=\s)|\n+/g
+
+// Clause punctuation; only used to break up long sentences
+const CLAUSE_BOUNDARY = /[,;:—–](?=\s)/g
+
+// Segments are not split at clauses until they are at least this long
+const MIN_CLAUSE_LENGTH = 60
+
+const ABBREVIATION = /(?:^|\s)(?:mr|mrs|ms|dr|prof|sr|jr|st|vs|etc|e\.g|i\.e)\.$/i
+
+/** Splits streamed text into speakable sentences (or clauses, for long sentences) as it arrives. */
+export class SentenceSegmenter {
+  private buffer = ""
+
+  push(text: string) {
+    this.buffer += text
+    const segments: string[] = []
+
+    let boundary = this.nextBoundary()
+    while (boundary !== -1) {
+      const segment = this.buffer.slice(0, boundary).trim()
+      this.buffer = this.buffer.slice(boundary)
+      if (segment) segments.push(segment)
+      boundary = this.nextBoundary()
+    }
+
+    return segments
+  }
+
+  /** Returns the trailing text that never reached a boundary. */
+  flush() {
+    const segment = this.buffer.trim()
+    this.buffer = ""
+    return segment ? [segment] : []
+  }
+
+  private nextBoundary() {
+    SENTENCE_BOUNDARY.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = SENTENCE_BOUNDARY.exec(this.buffer))) {
+      const end = match.index + match[0].length
+      if (!ABBREVIATION.test(this.buffer.slice(0, end))) return end
+    }
+
+    if (this.buffer.length > MIN_CLAUSE_LENGTH) {
+      CLAUSE_BOUNDARY.lastIndex = MIN_CLAUSE_LENGTH
+      const clause = CLAUSE_BOUNDARY.exec(this.buffer)
+      if (clause) return clause.index + clause[0].length
+    }
+
+    return -1
+  }
+}
+
+/** A reply being spoken while it streams in; one instance per assistant turn. */
+export interface ReplySpeech {
+  /** Feeds newly streamed text */
+  write(text: string): void
+  /** Marks the reply as complete */
+  end(): void
+  /** Silences the reply for good */
+  cancel(): void
+  readonly isCancelled: boolean
+  /** What the listener has heard so far */
+  readonly spokenText: string
+}
+
+interface SpokenSegment {
+  text: string
+  /** Start of the word being spoken, when the browser reports boundaries */
+  charIndex: number | null
+}
+
+export interface SpeechQueueOptions {
+  /** The first segment started playing */
+  onStart?: () => void
+  /** A segment started playing, with its text; drives live captions */
+  onSegmentStart?: (text: string) => void
+  /** Every segment has played and `end()` has been called */
+  onDrain?: () => void
+  /** Applies voice, rate, pitch etc. to each utterance before it is queued */
+  configureUtterance?: (utterance: SpeechSynthesisUtterance) => void
+}
+
+/**
+ * Speaks a streamed reply one segment at a time, in order, while the rest is still arriving.
+ * One queue is used per assistant turn; cancelling it silences it for good.
+ */
+export class SpeechQueue implements ReplySpeech {
+  private segmenter = new SentenceSegmenter()
+  private spoken: string[] = []
+  private current: SpokenSegment | null = null
+  private pending = 0
+  private started = false
+  private ended = false
+  private cancelled = false
+
+  constructor(
+    private synth: SpeechSynthesis,
+    private options: SpeechQueueOptions = {},
+  ) {}
+
+  get isCancelled() {
+    return this.cancelled
+  }
+
+  /**
+   * What the listener has actually heard so far: finished segments plus the one in progress,
+   * cut at the last word boundary when the browser reports boundaries.
+   */
+  get spokenText() {
+    const parts = [...this.spoken]
+    if (this.current) {
+      const { text, charIndex } = this.current
+      parts.push(charIndex === null ? text : text.slice(0, charIndex).trimEnd())
+    }
+    return parts.filter(Boolean).join(" ")
+  }
+
+  /** Feeds newly streamed text; complete segments are queued for speech immediately. */
+  write(text: string) {
+    this.segmenter.push(text).forEach((segment) => this.enqueue(segment))
+  }
+
+  /** Marks the reply as complete and speaks any trailing fragment. */
+  end() {
+    if (this.ended) return
+    this.segmenter.flush().forEach((segment) => this.enqueue(segment))
+    this.ended = true
+    this.checkDrained()
+  }
+
+  cancel() {
+    if (this.cancelled) return
+    this.cancelled = true
+    this.synth.cancel()
+  }
+
+  private enqueue(text: string) {
+    if (this.cancelled) return
+
+    const utterance = new SpeechSynthesisUtterance(text)
+    this.options.configureUtterance?.(utterance)
+
+    let settled = false
+    const settle = () => {
+      if (settled) return
+      settled = true
+      this.pending--
+      this.checkDrained()
+    }
+
+    const segment: SpokenSegment = { text, charIndex: null }
+
+    utterance.onstart = () => {
+      if (this.cancelled) return
+      this.current = segment
+      this.options.onSegmentStart?.(text)
+      if (this.started) return
+      this.started = true
+      this.options.onStart?.()
+    }
+
+    utterance.onboundary = (event) => {
+      if (event.name === "word") {
+        segment.charIndex = event.charIndex
+      }
+    }
+
+    utterance.onend = () => {
+      // Some browsers fire onend for the utterance cut off by cancel(); keep it partial
+      if (!this.cancelled && this.current === segment) {
+        this.spoken.push(text)
+        this.current = null
+      }
+      settle()
+    }
+
+    // Also fires for utterances dropped by cancel()
+    utterance.onerror = () => settle()
+
+    this.pending++
+    this.synth.speak(utterance)
+  }
+
+  private checkDrained() {
+    if (this.ended && !this.cancelled && this.pending === 0) {
+      this.options.onDrain?.()
+    }
+  }
+}
+
+/** Speaks replies with the browser's `speechSynthesis`, one `SpeechQueue` per reply. */
+export class WebSpeechSynthesis implements SpeechOutputEngine {
+  static isSupported() {
+    return typeof window !== "undefined" && "speechSynthesis" in window
+  }
+
+  readonly kind: SpeechEngineKind = "browser"
+
+  constructor(private synth: SpeechSynthesis) {}
+
+  createReply({ voice, languageFor, ...callbacks }: ReplySpeechOptions) {
+    return new SpeechQueue(this.synth, {
+      ...callbacks,
+      configureUtterance: (utterance) => {
+        const language = languageFor(utterance.text)
+        utterance.lang = language
+        utterance.rate = voice.rate
+        utterance.pitch = voice.pitch
+        utterance.volume = voice.volume
+        utterance.voice = selectVoice(this.synth.getVoices(), language, voice.preferredVoices)
+      },
+    })
+  }
+
+  cancel() {
+    this.synth.cancel()
+  }
+}
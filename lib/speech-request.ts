@@ -0,0 +1,38 @@
+import { z } from "zod"
+import { isLanguageCode } from "./languages"
+import { PERSONAS, type Persona } from "./personas"
+
+/** Bodies above this are refused before parsing; a sentence of text is well under it. */
+export const MAX_SPEECH_BODY_BYTES = 8 * 1024
+
+// Replies are spoken a sentence at a time, so requests stay short
+const MAX_TEXT_LENGTH = 1000
+
+// Wider than any persona rate times the user's speech rate setting; keeps generated audio a sane length
+const MIN_SPEED = 0.5
+const MAX_SPEED = 2
+
+// Only the voices personas speak with reach the provider (and espeak's command line)
+const SERVER_VOICES = PERSONAS.flatMap((persona: Persona) => persona.voice.serverVoice ?? [])
+
+export const speechRequestSchema = z.object({
+  text: z
+    .string()
+    .trim()
+    .min(1, "Text is required")
+    .max(MAX_TEXT_LENGTH, `Text is limited to ${MAX_TEXT_LENGTH} characters`),
+  /** Provider voice; the provider's default when unset */
+  voice: z
+    .string()
+    .refine((voice) => SERVER_VOICES.includes(voice), "Unknown voice")
+    .optional(),
+  language: z.string().refine(isLanguageCode, "Unsupported language").optional(),
+  /** Clamped rather than refused, since it only comes from the user's speech rate setting */
+  speed: z
+    .number()
+    .finite()
+    .transform((speed) => Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed)))
+    .optional(),
+})
+
+export type SpeechRequestBody = z.infer<typeof speechRequestSchema>
@@ -0,0 +1,23 @@
+import { primarySubtag } from "./languages"
+
+function normalizeTag(tag: string) {
+  return tag.replace("_", "-").toLowerCase()
+}
+
+/**
+ * Picks an installed voice for `language`: a preferred voice by name if it speaks the language,
+ * then the browser's default for the exact tag, any voice for the exact tag, and finally any
+ * voice sharing the primary subtag ("fil" for "fil-PH", including "tl" voices). Returns null to
+ * keep the browser default.
+ */
+export function selectVoice(voices: SpeechSynthesisVoice[], language: string, preferred: readonly string[] = []) {
+  const exact = voices.filter((voice) => normalizeTag(voice.lang) === normalizeTag(language))
+  const related = voices.filter((voice) => primarySubtag(voice.lang) === primarySubtag(language))
+
+  for (const name of preferred) {
+    const match = related.find((voice) => voice.name === name)
+    if (match) return match
+  }
+
+  return exact.find((voice) => voice.default) ?? exact[0] ?? related[0] ?? null
+}
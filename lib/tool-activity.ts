@@ -0,0 +1,17 @@
+// What to show while a tool runs; keyed by the tool names in `assistant-tools.ts`
+const ACTIVITY: Record<string, string> = {
+  getCurrentTime: "Checking the time",
+  calculate: "Calculating",
+  convertUnits: "Converting units",
+  setTimer: "Setting a timer",
+  setReminder: "Setting a reminder",
+  listAlerts: "Checking your timers",
+  cancelAlert: "Cancelling",
+  saveNote: "Saving a note",
+  readNotes: "Reading your notes",
+  deleteNote: "Deleting a note",
+}
+
+export function describeToolActivity(toolName: string) {
+  return ACTIVITY[toolName] ?? "Working on it"
+}
@@ -0,0 +1,76 @@
+import type { TranscriptTurn } from "./transcript"
+
+const DATABASE_NAME = "gawin"
+const DATABASE_VERSION = 1
+const TURNS = "transcript-turns"
+
+// Oldest turns are dropped beyond this, so the history can't grow without bound
+const MAX_STORED_TURNS = 2000
+
+function settle<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function complete(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/** Transcript history kept in IndexedDB, so it survives reloads without a server round trip. */
+export class TranscriptStore {
+  static isSupported() {
+    return typeof indexedDB !== "undefined"
+  }
+
+  private database: Promise<IDBDatabase> | null = null
+
+  private open() {
+    this.database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(TURNS, { keyPath: "id" })
+        store.createIndex("startedAt", "startedAt")
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    return this.database
+  }
+
+  /** All turns, oldest first. */
+  async list() {
+    const database = await this.open()
+    const index = database.transaction(TURNS).objectStore(TURNS).index("startedAt")
+    return settle(index.getAll() as IDBRequest<TranscriptTurn[]>)
+  }
+
+  async add(turn: TranscriptTurn) {
+    const database = await this.open()
+    const transaction = database.transaction(TURNS, "readwrite")
+    const done = complete(transaction)
+    const store = transaction.objectStore(TURNS)
+    store.put(turn)
+
+    const count = await settle(store.count())
+    if (count > MAX_STORED_TURNS) {
+      const oldest = await settle(store.index("startedAt").getAllKeys(null, count - MAX_STORED_TURNS))
+      oldest.forEach((key) => store.delete(key))
+    }
+
+    await done
+  }
+
+  async clear() {
+    const database = await this.open()
+    const transaction = database.transaction(TURNS, "readwrite")
+    const done = complete(transaction)
+    transaction.objectStore(TURNS).clear()
+    await done
+  }
+}
@@ -0,0 +1,111 @@
+export interface TranscriptTurn {
+  id: string
+  sessionId: string
+  role: "user" | "assistant"
+  text: string
+  /** Epoch milliseconds: when the user started talking, or when the reply started playing */
+  startedAt: number
+  endedAt: number
+  /** The reply was cut short by the user; `text` is what was actually heard */
+  interrupted?: boolean
+}
+
+export type TranscriptFormat = "json" | "markdown" | "vtt" | "srt"
+
+export const TRANSCRIPT_FORMATS: { format: TranscriptFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: "json", label: "JSON", extension: "json", mimeType: "application/json" },
+  { format: "markdown", label: "Markdown", extension: "md", mimeType: "text/markdown" },
+  { format: "vtt", label: "WebVTT", extension: "vtt", mimeType: "text/vtt" },
+  { format: "srt", label: "SRT", extension: "srt", mimeType: "application/x-subrip" },
+]
+
+// Cues shorter than this flash by too quickly to read
+const MIN_CUE_MS = 1000
+
+/** Case-insensitive match on every word of `query`, in any order. */
+export function searchTranscript(turns: TranscriptTurn[], query: string) {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return turns
+  return turns.filter((turn) => {
+    const text = turn.text.toLowerCase()
+    return words.every((word) => text.includes(word))
+  })
+}
+
+function speakerName(turn: TranscriptTurn, assistantName: string) {
+  return turn.role === "user" ? "You" : assistantName
+}
+
+function formatTimestamp(ms: number, separator: "." | ",") {
+  const pad = (value: number, length = 2) => String(Math.floor(value)).padStart(length, "0")
+  const hours = ms / 3600000
+  const minutes = (ms % 3600000) / 60000
+  const seconds = (ms % 60000) / 1000
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`
+}
+
+/** Cue times relative to the first turn; each cue ends before the next begins. */
+function toCues(turns: TranscriptTurn[]) {
+  const origin = turns[0]?.startedAt ?? 0
+  return turns.map((turn, index) => {
+    const start = turn.startedAt - origin
+    const nextStart = turns[index + 1] ? turns[index + 1].startedAt - origin : Infinity
+    const end = Math.min(Math.max(turn.endedAt - origin, start + MIN_CUE_MS), Math.max(nextStart, start + 1))
+    return { turn, start, end }
+  })
+}
+
+function toMarkdown(turns: TranscriptTurn[], assistantName: string) {
+  const lines = ["# Conversation with " + assistantName, ""]
+  let sessionId: string | null = null
+
+  for (const turn of turns) {
+    if (turn.sessionId !== sessionId) {
+      sessionId = turn.sessionId
+      lines.push(`## ${new Date(turn.startedAt).toLocaleString()}`, "")
+    }
+    const time = new Date(turn.startedAt).toLocaleTimeString()
+    const suffix = turn.interrupted ? " _(interrupted)_" : ""
+    lines.push(`**${speakerName(turn, assistantName)}** (${time}): ${turn.text}${suffix}`, "")
+  }
+
+  return lines.join("\n")
+}
+
+// Cue text is parsed for tags, so markup characters must be escaped
+function escapeCueText(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
+
+function toWebVTT(turns: TranscriptTurn[], assistantName: string) {
+  const cues = toCues(turns).map(
+    ({ turn, start, end }) =>
+      `${formatTimestamp(start, ".")} --> ${formatTimestamp(end, ".")}\n<v ${speakerName(turn, assistantName)}>${escapeCueText(turn.text)}`,
+  )
+  return ["WEBVTT", ...cues].join("\n\n") + "\n"
+}
+
+function toSRT(turns: TranscriptTurn[], assistantName: string) {
+  return toCues(turns)
+    .map(
+      ({ turn, start, end }, index) =>
+        `${index + 1}\n${formatTimestamp(start, ",")} --> ${formatTimestamp(end, ",")}\n${speakerName(turn, assistantName)}: ${turn.text}`,
+    )
+    .join("\n\n")
+    .concat("\n")
+}
+
+/** Serializes turns (sorted by start time) for download. Caption formats use the recorded turn timings. */
+export function exportTranscript(turns: TranscriptTurn[], format: TranscriptFormat, assistantName = "Gawin") {
+  const sorted = [...turns].sort((a, b) => a.startedAt - b.startedAt)
+  switch (format) {
+    case "json":
+      return JSON.stringify(sorted, null, 2)
+    case "markdown":
+      return toMarkdown(sorted, assistantName)
+    case "vtt":
+      return toWebVTT(sorted, assistantName)
+    case "srt":
+      return toSRT(sorted, assistantName)
+  }
+}
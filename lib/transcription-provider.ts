@@ -0,0 +1,149 @@
+import { execFile } from "node:child_process"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+import { promisify } from "node:util"
+import { createOpenAI } from "@ai-sdk/openai"
+import { experimental_transcribe as transcribe } from "ai"
+import { z } from "zod"
+import { parseConfig } from "./env-config"
+
+const execFileAsync = promisify(execFile)
+
+export interface TranscriptionRequest {
+  audio: Uint8Array
+  /** Container type without codec parameters, e.g. "audio/webm" */
+  mimeType: string
+  /** BCP 47 tag such as "en-US"; providers that take ISO 639-1 codes get the primary subtag */
+  language?: string
+  abortSignal?: AbortSignal
+}
+
+export interface TranscriptionProvider {
+  transcribe(request: TranscriptionRequest): Promise<{ text: string }>
+}
+
+const transcriptionConfigSchema = z
+  .object({
+    provider: z.enum(["openai", "whisper-cpp", "mock"]).default("openai"),
+    model: z.string().min(1).default("whisper-1"),
+    apiKey: z.string().min(1).optional(),
+    whisperBinary: z.string().min(1).default("whisper-cli"),
+    whisperModel: z.string().min(1).optional(),
+    ffmpegBinary: z.string().min(1).default("ffmpeg"),
+    mockText: z.string().default("Hello Gawin"),
+  })
+  .superRefine((config, ctx) => {
+    if (config.provider === "whisper-cpp" && !config.whisperModel) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["whisperModel"],
+        message: "STT_WHISPER_MODEL is required for the whisper-cpp provider",
+      })
+    }
+    if (config.provider === "openai" && !config.apiKey) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["apiKey"],
+        message: "OPENAI_API_KEY (or STT_API_KEY) is required for the openai provider",
+      })
+    }
+  })
+
+export type TranscriptionConfig = z.infer<typeof transcriptionConfigSchema>
+
+const EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/wave": "wav",
+}
+
+export const SUPPORTED_AUDIO_TYPES = Object.keys(EXTENSIONS)
+
+// Whisper knows Tagalog by its ISO 639-1 code, while browsers tag Filipino as "fil"
+const ISO_LANGUAGE_ALIASES: Record<string, string> = { fil: "tl" }
+
+function primaryLanguage(language?: string) {
+  const subtag = language?.split("-")[0].toLowerCase()
+  return subtag && (ISO_LANGUAGE_ALIASES[subtag] ?? subtag)
+}
+
+const providers: Record<TranscriptionConfig["provider"], (config: TranscriptionConfig) => TranscriptionProvider> = {
+  openai: (config) => {
+    const model = createOpenAI({ apiKey: config.apiKey }).transcription(config.model)
+    return {
+      async transcribe({ audio, language, abortSignal }) {
+        const isoLanguage = primaryLanguage(language)
+        const { text } = await transcribe({
+          model,
+          audio,
+          abortSignal,
+          providerOptions: isoLanguage ? { openai: { language: isoLanguage } } : undefined,
+        })
+        return { text }
+      },
+    }
+  },
+
+  // whisper.cpp only reads 16 kHz mono WAV, so everything goes through ffmpeg first
+  "whisper-cpp": (config) => ({
+    async transcribe({ audio, mimeType, language, abortSignal }) {
+      const directory = await mkdtemp(path.join(os.tmpdir(), "gawin-stt-"))
+      try {
+        const input = path.join(directory, `input.${EXTENSIONS[mimeType] ?? "bin"}`)
+        const wav = path.join(directory, "audio.wav")
+        await writeFile(input, audio)
+
+        await execFileAsync(
+          config.ffmpegBinary,
+          ["-nostdin", "-loglevel", "error", "-i", input, "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le", wav],
+          { signal: abortSignal },
+        )
+        const { stdout } = await execFileAsync(
+          config.whisperBinary,
+          ["-m", config.whisperModel!, "-f", wav, "-l", primaryLanguage(language) ?? "auto", "-nt", "-np"],
+          { signal: abortSignal },
+        )
+
+        return { text: stdout.replace(/\s+/g, " ").trim() }
+      } finally {
+        await rm(directory, { recursive: true, force: true })
+      }
+    },
+  }),
+
+  mock: (config) => ({
+    async transcribe() {
+      return { text: config.mockText }
+    },
+  }),
+}
+
+function readEnvConfig() {
+  const env = process.env
+  return {
+    provider: env.STT_PROVIDER || undefined,
+    model: env.STT_MODEL || undefined,
+    apiKey: env.STT_API_KEY || env.OPENAI_API_KEY || undefined,
+    whisperBinary: env.STT_WHISPER_BINARY || undefined,
+    whisperModel: env.STT_WHISPER_MODEL || undefined,
+    ffmpegBinary: env.STT_FFMPEG_BINARY || undefined,
+    mockText: env.STT_MOCK_TEXT || undefined,
+  }
+}
+
+let cachedConfig: TranscriptionConfig | null = null
+let cachedProvider: TranscriptionProvider | null = null
+
+/** Parses and validates the speech-to-text configuration from the environment, once per process. */
+export function getTranscriptionConfig() {
+  cachedConfig ??= parseConfig("speech-to-text", transcriptionConfigSchema, readEnvConfig())
+  return cachedConfig
+}
+
+export function getTranscriptionProvider() {
+  cachedProvider ??= providers[getTranscriptionConfig().provider](getTranscriptionConfig())
+  return cachedProvider
+}
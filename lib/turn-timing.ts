@@ -0,0 +1,99 @@
+import { z } from "zod"
+
+/** Points in a voice turn, in the order they normally happen. */
+export const TURN_MARKS = ["speechEnd", "requestSent", "firstToken", "firstAudio", "playbackEnd"] as const
+
+export type TurnMark = (typeof TURN_MARKS)[number]
+
+// Milliseconds since the turn's first mark; a turn longer than ten minutes is a broken clock
+const markSchema = z.number().min(0).max(10 * 60 * 1000)
+
+export const turnTimingSchema = z.object({
+  /** `X-Request-Id` of the chat response, to find the turn in the server logs */
+  requestId: z.string().max(128).optional(),
+  /** Typed turns have no `speechEnd` */
+  input: z.enum(["voice", "text"]),
+  /** The user talked over the reply, so playback never finished */
+  interrupted: z.boolean(),
+  marks: z.object({
+    speechEnd: markSchema.optional(),
+    requestSent: markSchema.optional(),
+    firstToken: markSchema.optional(),
+    firstAudio: markSchema.optional(),
+    playbackEnd: markSchema.optional(),
+  }),
+})
+
+export type TurnTiming = z.infer<typeof turnTimingSchema>
+
+export type TurnPhase = "endpointing" | "first_token" | "first_audio" | "response" | "playback"
+
+// Each phase runs from one mark to a later one; "response" is the wait the user actually hears
+const PHASES: Record<TurnPhase, [TurnMark, TurnMark]> = {
+  endpointing: ["speechEnd", "requestSent"],
+  first_token: ["requestSent", "firstToken"],
+  first_audio: ["firstToken", "firstAudio"],
+  response: ["speechEnd", "firstAudio"],
+  playback: ["firstAudio", "playbackEnd"],
+}
+
+/** Phase durations in milliseconds, for the phases whose marks were both reached. */
+export function turnPhases({ input, marks }: TurnTiming) {
+  const phases: Partial<Record<TurnPhase, number>> = {}
+  for (const [phase, [from, to]] of Object.entries(PHASES) as [TurnPhase, [TurnMark, TurnMark]][]) {
+    // Typed turns start when they are sent, so they have no endpointing
+    if (input === "text" && phase === "endpointing") continue
+    const start = input === "text" && from === "speechEnd" ? marks.requestSent : marks[from]
+    const end = marks[to]
+    if (start !== undefined && end !== undefined && end >= start) {
+      phases[phase] = end - start
+    }
+  }
+  return phases
+}
+
+/**
+ * Collects the marks of one turn on the `performance.now()` clock. The first time a mark is
+ * reached wins, so streaming callbacks can mark `firstToken` on every delta.
+ */
+export class TurnTimer {
+  private marks = new Map<TurnMark, number>()
+  private reported = false
+  requestId: string | undefined
+  interrupted = false
+
+  constructor(readonly input: TurnTiming["input"]) {}
+
+  mark(name: TurnMark, at = performance.now()) {
+    if (!this.marks.has(name)) this.marks.set(name, at)
+  }
+
+  has(name: TurnMark) {
+    return this.marks.has(name)
+  }
+
+  /** The turn as reported to the server, relative to its first mark. */
+  toJSON(): TurnTiming {
+    const origin = Math.min(...this.marks.values())
+    const marks: TurnTiming["marks"] = {}
+    this.marks.forEach((at, name) => {
+      marks[name] = Math.round(at - origin)
+    })
+    return { requestId: this.requestId, input: this.input, interrupted: this.interrupted, marks }
+  }
+
+  /** Sends the timing to `/api/metrics` once; later calls do nothing. */
+  report() {
+    if (this.reported || this.marks.size < 2) return
+    this.reported = true
+
+    const body = JSON.stringify(this)
+    // A beacon survives the page being closed right after the reply
+    if (navigator.sendBeacon?.("/api/metrics", new Blob([body], { type: "application/json" }))) return
+    fetch("/api/metrics", { method: "POST", headers: { "Content-Type": "application/json" }, body, keepalive: true }).catch(
+      () => {
+        // Metrics are best effort
+      },
+    )
+  }
+}
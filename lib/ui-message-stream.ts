@@ -0,0 +1,173 @@
+import type { UIMessageChunk } from "ai"
+
+const DONE_SENTINEL = "[DONE]"
+
+export class UIMessageStreamError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "UIMessageStreamError"
+  }
+}
+
+/**
+ * Incremental parser for the server-sent events emitted by `toUIMessageStreamResponse()`.
+ * Input may be split at arbitrary points; only complete events are returned.
+ */
+export class UIMessageStreamParser {
+  private buffer = ""
+  private dataLines: string[] = []
+  private done = false
+
+  get isDone() {
+    return this.done
+  }
+
+  push(text: string) {
+    this.buffer += text
+    const chunks: UIMessageChunk[] = []
+
+    let newline = this.buffer.indexOf("\n")
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, "")
+      this.buffer = this.buffer.slice(newline + 1)
+      this.processLine(line, chunks)
+      newline = this.buffer.indexOf("\n")
+    }
+
+    return chunks
+  }
+
+  /** Dispatches whatever is left once the underlying stream has ended. */
+  flush() {
+    const chunks: UIMessageChunk[] = []
+    if (this.buffer) {
+      this.processLine(this.buffer, chunks)
+      this.buffer = ""
+    }
+    this.processLine("", chunks)
+    return chunks
+  }
+
+  private processLine(line: string, chunks: UIMessageChunk[]) {
+    // A blank line terminates the current event
+    if (line === "") {
+      if (this.dataLines.length > 0) {
+        this.dispatch(this.dataLines.join("\n"), chunks)
+        this.dataLines = []
+      }
+      return
+    }
+
+    if (line.startsWith("data:")) {
+      this.dataLines.push(line.slice(5).replace(/^ /, ""))
+    }
+    // Comments (":") and other SSE fields carry nothing we use
+  }
+
+  private dispatch(data: string, chunks: UIMessageChunk[]) {
+    if (data === DONE_SENTINEL) {
+      this.done = true
+      return
+    }
+
+    try {
+      chunks.push(JSON.parse(data) as UIMessageChunk)
+    } catch {
+      console.warn("Skipping malformed UI message stream event:", data)
+    }
+  }
+}
+
+export interface UIMessageStreamHandlers {
+  /** Called for every text delta with the delta and the accumulated text so far */
+  onTextDelta?: (delta: string, text: string) => void
+  onChunk?: (chunk: UIMessageChunk) => void
+}
+
+export interface UIMessageStreamResult {
+  text: string
+  /** The server sent a `finish` part */
+  finished: boolean
+  /** The stream was aborted, either by `signal` or by an `abort` part from the server */
+  aborted: boolean
+}
+
+/**
+ * Reads a UI message stream response body to completion, accumulating assistant text.
+ * Rejects with `UIMessageStreamError` when the server streams an `error` part.
+ */
+export async function decodeUIMessageStream(
+  body: ReadableStream<Uint8Array>,
+  handlers: UIMessageStreamHandlers = {},
+  signal?: AbortSignal,
+): Promise<UIMessageStreamResult> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  const parser = new UIMessageStreamParser()
+  const result: UIMessageStreamResult = { text: "", finished: false, aborted: false }
+
+  const handleChunk = (chunk: UIMessageChunk) => {
+    handlers.onChunk?.(chunk)
+
+    switch (chunk.type) {
+      case "text-start":
+        // Text parts from separate steps (e.g. before and after a tool call) would otherwise run together
+        if (result.text && !/\s$/.test(result.text)) {
+          result.text += " "
+          handlers.onTextDelta?.(" ", result.text)
+        }
+        break
+      case "text-delta":
+        result.text += chunk.delta
+        handlers.onTextDelta?.(chunk.delta, result.text)
+        break
+      case "finish":
+        result.finished = true
+        break
+      case "abort":
+        result.aborted = true
+        break
+      case "error":
+        throw new UIMessageStreamError(chunk.errorText)
+    }
+  }
+
+  const cancel = () => {
+    reader.cancel().catch(() => {})
+  }
+  signal?.addEventListener("abort", cancel)
+
+  try {
+    while (!parser.isDone) {
+      if (signal?.aborted) {
+        result.aborted = true
+        break
+      }
+
+      const { done, value } = await reader.read()
+      if (done) {
+        // Flush any multi-byte sequence the decoder is still holding
+        parser.push(decoder.decode()).forEach(handleChunk)
+        parser.flush().forEach(handleChunk)
+        break
+      }
+
+      parser.push(decoder.decode(value, { stream: true })).forEach(handleChunk)
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      result.aborted = true
+      return result
+    }
+    cancel()
+    throw error
+  } finally {
+    signal?.removeEventListener("abort", cancel)
+  }
+
+  if (signal?.aborted) {
+    result.aborted = true
+  }
+
+  return result
+}
@@ -0,0 +1,130 @@
+export class UnitConversionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "UnitConversionError"
+  }
+}
+
+type Dimension = "length" | "mass" | "volume" | "temperature" | "speed" | "time" | "area" | "data"
+
+interface UnitDefinition {
+  dimension: Dimension
+  singular: string
+  plural: string
+  aliases: string[]
+  /** Size of one unit in the dimension's base unit; temperatures use `toBase`/`fromBase` */
+  factor: number
+  toBase?: (value: number) => number
+  fromBase?: (value: number) => number
+}
+
+function unit(
+  dimension: Dimension,
+  singular: string,
+  plural: string,
+  factor: number,
+  aliases: string[],
+  extra: Pick<UnitDefinition, "toBase" | "fromBase"> = {},
+): UnitDefinition {
+  return { dimension, singular, plural, factor, aliases: [singular, plural, ...aliases], ...extra }
+}
+
+// Base units: meter, kilogram, liter, kelvin, meter per second, second, square meter, byte
+const UNITS: UnitDefinition[] = [
+  unit("length", "millimeter", "millimeters", 0.001, ["mm", "millimetre", "millimetres"]),
+  unit("length", "centimeter", "centimeters", 0.01, ["cm", "centimetre", "centimetres"]),
+  unit("length", "meter", "meters", 1, ["m", "metre", "metres"]),
+  unit("length", "kilometer", "kilometers", 1000, ["km", "kilometre", "kilometres"]),
+  unit("length", "inch", "inches", 0.0254, ["in", '"']),
+  unit("length", "foot", "feet", 0.3048, ["ft", "'"]),
+  unit("length", "yard", "yards", 0.9144, ["yd"]),
+  unit("length", "mile", "miles", 1609.344, ["mi"]),
+  unit("length", "nautical mile", "nautical miles", 1852, ["nmi"]),
+
+  unit("mass", "milligram", "milligrams", 0.000001, ["mg"]),
+  unit("mass", "gram", "grams", 0.001, ["g", "gramme", "grammes"]),
+  unit("mass", "kilogram", "kilograms", 1, ["kg", "kilo", "kilos"]),
+  unit("mass", "tonne", "tonnes", 1000, ["t", "metric ton", "metric tons"]),
+  unit("mass", "ounce", "ounces", 0.028349523125, ["oz"]),
+  unit("mass", "pound", "pounds", 0.45359237, ["lb", "lbs"]),
+  unit("mass", "stone", "stone", 6.35029318, ["st"]),
+
+  unit("volume", "milliliter", "milliliters", 0.001, ["ml", "millilitre", "millilitres"]),
+  unit("volume", "liter", "liters", 1, ["l", "litre", "litres"]),
+  unit("volume", "teaspoon", "teaspoons", 0.00492892159375, ["tsp"]),
+  unit("volume", "tablespoon", "tablespoons", 0.01478676478125, ["tbsp"]),
+  unit("volume", "fluid ounce", "fluid ounces", 0.0295735295625, ["fl oz"]),
+  unit("volume", "cup", "cups", 0.2365882365, []),
+  unit("volume", "pint", "pints", 0.473176473, ["pt"]),
+  unit("volume", "quart", "quarts", 0.946352946, ["qt"]),
+  unit("volume", "gallon", "gallons", 3.785411784, ["gal"]),
+
+  unit("temperature", "degree Celsius", "degrees Celsius", 1, ["c", "°c", "celsius", "centigrade"], {
+    toBase: (value) => value + 273.15,
+    fromBase: (value) => value - 273.15,
+  }),
+  unit("temperature", "degree Fahrenheit", "degrees Fahrenheit", 1, ["f", "°f", "fahrenheit"], {
+    toBase: (value) => ((value - 32) * 5) / 9 + 273.15,
+    fromBase: (value) => ((value - 273.15) * 9) / 5 + 32,
+  }),
+  unit("temperature", "kelvin", "kelvin", 1, ["k"]),
+
+  unit("speed", "meter per second", "meters per second", 1, ["m/s", "mps"]),
+  unit("speed", "kilometer per hour", "kilometers per hour", 1000 / 3600, ["km/h", "kph", "kmh"]),
+  unit("speed", "mile per hour", "miles per hour", 1609.344 / 3600, ["mph", "mi/h"]),
+  unit("speed", "knot", "knots", 1852 / 3600, ["kn", "kt"]),
+
+  unit("time", "second", "seconds", 1, ["s", "sec", "secs"]),
+  unit("time", "minute", "minutes", 60, ["min", "mins"]),
+  unit("time", "hour", "hours", 3600, ["h", "hr", "hrs"]),
+  unit("time", "day", "days", 86400, ["d"]),
+  unit("time", "week", "weeks", 604800, ["wk"]),
+
+  unit("area", "square meter", "square meters", 1, ["m2", "m²", "sq m"]),
+  unit("area", "square kilometer", "square kilometers", 1e6, ["km2", "km²", "sq km"]),
+  unit("area", "square foot", "square feet", 0.09290304, ["ft2", "ft²", "sq ft"]),
+  unit("area", "acre", "acres", 4046.8564224, ["ac"]),
+  unit("area", "hectare", "hectares", 10000, ["ha"]),
+
+  unit("data", "byte", "bytes", 1, ["b"]),
+  unit("data", "kilobyte", "kilobytes", 1e3, ["kb"]),
+  unit("data", "megabyte", "megabytes", 1e6, ["mb"]),
+  unit("data", "gigabyte", "gigabytes", 1e9, ["gb"]),
+  unit("data", "terabyte", "terabytes", 1e12, ["tb"]),
+]
+
+const UNITS_BY_NAME = new Map(UNITS.flatMap((definition) => definition.aliases.map((alias) => [alias.toLowerCase(), definition])))
+
+function findUnit(name: string) {
+  const normalized = name.trim().toLowerCase().replace(/\s+/g, " ").replace(/^degrees? /, "")
+  const definition = UNITS_BY_NAME.get(normalized)
+  if (!definition) {
+    throw new UnitConversionError(`I don't know the unit "${name}"`)
+  }
+  return definition
+}
+
+/** Writes a number the way it should be read out: at most two decimals, or three significant digits below one. */
+export function formatNumber(value: number) {
+  return Math.abs(value) >= 1
+    ? value.toLocaleString("en-US", { maximumFractionDigits: 2 })
+    : value.toLocaleString("en-US", { maximumSignificantDigits: 3 })
+}
+
+export function formatQuantity(value: number, definition: Pick<UnitDefinition, "singular" | "plural">) {
+  const text = formatNumber(value)
+  return `${text} ${text === "1" || text === "-1" ? definition.singular : definition.plural}`
+}
+
+export function convertUnits(value: number, from: string, to: string) {
+  const source = findUnit(from)
+  const target = findUnit(to)
+
+  if (source.dimension !== target.dimension) {
+    throw new UnitConversionError(`${source.plural} can't be converted to ${target.plural}`)
+  }
+
+  const base = source.toBase ? source.toBase(value) : value * source.factor
+  const result = target.fromBase ? target.fromBase(base) : base / target.factor
+  return { value: result, from: source, to: target }
+}
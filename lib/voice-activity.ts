@@ -0,0 +1,182 @@
+/** Per-frame measurements the detector decides on. */
+export interface VoiceFrame {
+  /** RMS of the time-domain signal */
+  energy: number
+  /** Spectral flatness in the voice range, 0 (tonal) to 1 (white noise) */
+  flatness: number
+  /** Share of spectral power between 300 Hz and 3.4 kHz */
+  speechRatio: number
+}
+
+export type VoiceActivityEvent =
+  | { type: "speech-start"; at: number }
+  | { type: "speech-end"; at: number; durationMs: number }
+  /** Nothing was said within `noSpeechTimeoutMs` of `reset()` */
+  | { type: "no-speech"; at: number }
+
+export interface VoiceActivityOptions {
+  /** Absolute minimum energy that can count as speech */
+  minEnergy?: number
+  /** How far above the noise floor energy must rise */
+  floorRatio?: number
+  /** Frames flatter than this are treated as noise (fans, hiss) however loud they are */
+  maxFlatness?: number
+  /** Frames with less of their power in the speech band are treated as noise (hum, rumble) */
+  minSpeechRatio?: number
+  /** How long speech must last before it counts, in ms; filters clicks and taps */
+  startMs?: number
+  /** Silence that ends an utterance, in ms */
+  endSilenceMs?: number
+  /** Utterances are cut off after this long, in ms */
+  maxSpeechMs?: number
+  /** Give up if nothing is said for this long after `reset()`, in ms */
+  noSpeechTimeoutMs?: number
+}
+
+function envMs(value: string | undefined, fallback: number) {
+  const parsed = Number(value)
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+const DEFAULTS: Required<VoiceActivityOptions> = {
+  minEnergy: 0.01,
+  floorRatio: 3,
+  maxFlatness: 0.6,
+  minSpeechRatio: 0.45,
+  startMs: 120,
+  endSilenceMs: envMs(process.env.NEXT_PUBLIC_VAD_END_SILENCE_MS, 800),
+  maxSpeechMs: 30000,
+  noSpeechTimeoutMs: envMs(process.env.NEXT_PUBLIC_VAD_NO_SPEECH_MS, 8000),
+}
+
+// Time constants for the noise floor, in ms: it rises slowly so speech barely moves it and
+// falls quickly when the room gets quieter
+const FLOOR_RISE_MS = 3000
+const FLOOR_FALL_MS = 300
+const INITIAL_FLOOR = 0.003
+
+const SPEECH_LOW_HZ = 300
+const SPEECH_HIGH_HZ = 3400
+// Flatness is measured where voices have energy; the rest of the spectrum is mostly noise anyway
+const FLATNESS_LOW_HZ = 100
+const FLATNESS_HIGH_HZ = 4000
+
+/**
+ * Measures one analyser frame. `timeData` is from `getFloatTimeDomainData` and `frequencyDb` from
+ * `getFloatFrequencyData` of the same analyser.
+ */
+export function measureVoiceFrame(timeData: Float32Array, frequencyDb: Float32Array, sampleRate: number): VoiceFrame {
+  let sumSquares = 0
+  for (let i = 0; i < timeData.length; i++) sumSquares += timeData[i] * timeData[i]
+  const energy = Math.sqrt(sumSquares / timeData.length)
+
+  const binHz = sampleRate / 2 / frequencyDb.length
+  let total = 0
+  let speech = 0
+  let flatSum = 0
+  let flatLogSum = 0
+  let flatBins = 0
+
+  for (let i = 1; i < frequencyDb.length; i++) {
+    // Silent bins report -Infinity dB
+    const power = Number.isFinite(frequencyDb[i]) ? 10 ** (frequencyDb[i] / 10) : 0
+    const hz = i * binHz
+    total += power
+    if (hz >= SPEECH_LOW_HZ && hz <= SPEECH_HIGH_HZ) speech += power
+    if (hz >= FLATNESS_LOW_HZ && hz <= FLATNESS_HIGH_HZ) {
+      flatSum += power
+      flatLogSum += Math.log(power + 1e-12)
+      flatBins++
+    }
+  }
+
+  const flatness = flatBins > 0 && flatSum > 0 ? Math.exp(flatLogSum / flatBins) / (flatSum / flatBins) : 1
+  return { energy, flatness: Math.min(1, flatness), speechRatio: total > 0 ? speech / total : 0 }
+}
+
+/**
+ * Decides when the user starts and stops talking. Speech needs energy well above an adaptive
+ * noise floor plus a voice-like spectrum; an utterance ends after `endSilenceMs` without it.
+ * Call `reset()` each time listening starts; the noise floor carries over between turns.
+ */
+export class VoiceActivityDetector {
+  private options: Required<VoiceActivityOptions>
+  private floor = INITIAL_FLOOR
+  private lastFrameAt: number | null = null
+  private listeningSince: number | null = null
+  private voicedSince: number | null = null
+  private speechStartedAt: number | null = null
+  private lastVoicedAt = 0
+
+  constructor(options: VoiceActivityOptions = {}) {
+    this.options = { ...DEFAULTS, ...options }
+  }
+
+  get isSpeaking() {
+    return this.speechStartedAt !== null
+  }
+
+  get noiseFloor() {
+    return this.floor
+  }
+
+  /**
+   * Feeds one frame and returns an event when speech starts, ends or never came. Set
+   * `background` while something steady like music is playing: the floor then rises to meet
+   * it, so only speech louder than the background counts.
+   */
+  update(frame: VoiceFrame, now: number, background = false): VoiceActivityEvent | null {
+    const { minEnergy, floorRatio, maxFlatness, minSpeechRatio, startMs, endSilenceMs, maxSpeechMs, noSpeechTimeoutMs } =
+      this.options
+
+    this.listeningSince ??= now
+    const elapsed = this.lastFrameAt === null ? 0 : now - this.lastFrameAt
+    this.lastFrameAt = now
+
+    const voiced =
+      frame.energy > Math.max(minEnergy, this.floor * floorRatio) &&
+      frame.flatness < maxFlatness &&
+      frame.speechRatio > minSpeechRatio
+
+    if (!voiced || background) {
+      const tau = frame.energy > this.floor ? FLOOR_RISE_MS : FLOOR_FALL_MS
+      this.floor += (frame.energy - this.floor) * (1 - Math.exp(-elapsed / tau))
+    }
+
+    if (this.speechStartedAt === null) {
+      if (voiced) {
+        this.voicedSince ??= now
+        if (now - this.voicedSince >= startMs) {
+          this.speechStartedAt = this.voicedSince
+          this.lastVoicedAt = now
+          return { type: "speech-start", at: this.speechStartedAt }
+        }
+      } else {
+        this.voicedSince = null
+        if (now - this.listeningSince >= noSpeechTimeoutMs) {
+          this.listeningSince = now
+          return { type: "no-speech", at: now }
+        }
+      }
+      return null
+    }
+
+    if (voiced) {
+      this.lastVoicedAt = now
+    }
+    if (now - this.lastVoicedAt >= endSilenceMs || now - this.speechStartedAt >= maxSpeechMs) {
+      const event: VoiceActivityEvent = { type: "speech-end", at: now, durationMs: this.lastVoicedAt - this.speechStartedAt }
+      this.reset()
+      return event
+    }
+    return null
+  }
+
+  /** Starts a new listening window, keeping the noise floor estimate. */
+  reset() {
+    this.listeningSince = null
+    this.lastFrameAt = null
+    this.voicedSince = null
+    this.speechStartedAt = null
+  }
+}
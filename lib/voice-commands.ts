@@ -0,0 +1,237 @@
+import { editDistance, maxEditsFor, normalizeWords } from "@/lib/fuzzy-match"
+import { findLanguageByName, getLanguage, type LanguageCode } from "@/lib/languages"
+
+/**
+ * Something the user can say that is handled in the browser instead of by the model. A phrase
+ * ending in `*` captures the words after it, which `parse` turns into the command's argument.
+ */
+export interface VoiceCommand<T = string> {
+  id: string
+  phrases: readonly string[]
+  /** Turns the words captured by `*` into an argument, or returns null when they don't fit */
+  parse?: (rest: string) => T | null
+  /** Match phrases word for word, with no allowance for mishearing; for commands that lose something */
+  exact?: boolean
+  /** Does the thing; the returned text is spoken back as confirmation. No argument without `*`. */
+  run: (argument: T | undefined, transcript: string) => string | void
+}
+
+/**
+ * A command ready for the registry, its argument type hidden so commands with different
+ * arguments can be kept together. Only `defineCommand` makes these, which is what keeps each
+ * `parse` and `run` in step.
+ */
+export interface RegisteredVoiceCommand {
+  id: string
+  phrases: readonly string[]
+  /** The argument for the words captured by `*`, or null when they don't fit */
+  parse: (rest: string) => unknown
+  exact: boolean
+  run: (argument: unknown, transcript: string) => string | void
+}
+
+/** Checks a command's `parse` and `run` against each other, then prepares it for `register`. */
+export function defineCommand<T = string>(command: VoiceCommand<T>): RegisteredVoiceCommand {
+  const { id, phrases, parse, exact = false, run } = command
+  return {
+    id,
+    phrases,
+    parse: (rest) => (parse ? parse(rest) : rest),
+    exact,
+    // The argument only ever comes from this command's own `parse`, or is the raw string without one
+    run: (argument, transcript) => run(argument as T | undefined, transcript),
+  }
+}
+
+export interface VoiceCommandMatch {
+  command: RegisteredVoiceCommand
+  argument: unknown
+  /** Edits per character between what was heard and the phrase; 0 is an exact match */
+  distance: number
+}
+
+// Politeness and the assistant's name around a command don't change it: "Gawin, stop please"
+const FILLER_WORDS = new Set(["please", "hey", "okay", "ok", "gawin", "can", "could", "would", "you", "now", "just"])
+
+function stripFillers(words: string[]) {
+  let start = 0
+  let end = words.length
+  while (start < end && FILLER_WORDS.has(words[start])) start++
+  while (end > start && FILLER_WORDS.has(words[end - 1])) end--
+  return words.slice(start, end)
+}
+
+// Below this length one edit is too much, e.g. "shop" is not "stop"
+const MIN_FUZZY_LENGTH = 5
+
+/** Distance per character if `candidate` is close enough to `target`, otherwise null. */
+function closeness(candidate: string[], target: string, exact: boolean) {
+  const edits = editDistance(candidate.join(""), target)
+  const allowed = exact || target.length < MIN_FUZZY_LENGTH ? 0 : maxEditsFor(target)
+  return edits <= allowed ? edits / target.length : null
+}
+
+/**
+ * Matches whole utterances against registered commands. Only short utterances that are a
+ * command on their own match, so "stop" does but "how do I stop a nosebleed" goes to the model.
+ */
+export class VoiceCommandRegistry {
+  private commands = new Map<string, RegisteredVoiceCommand>()
+
+  /** Adds a command from `defineCommand`, replacing any with the same id. Returns a function that removes it. */
+  register(command: RegisteredVoiceCommand) {
+    this.commands.set(command.id, command)
+    return () => {
+      if (this.commands.get(command.id) === command) {
+        this.commands.delete(command.id)
+      }
+    }
+  }
+
+  /** The closest command for `transcript`; later registrations win ties, so apps can override built-ins. */
+  match(transcript: string): VoiceCommandMatch | null {
+    const words = stripFillers(normalizeWords(transcript))
+    if (!words.length) return null
+
+    let best: VoiceCommandMatch | null = null
+    this.commands.forEach((command) => {
+      for (const phrase of command.phrases) {
+        const match = this.matchPhrase(command, phrase, words)
+        if (match && (!best || match.distance <= best.distance)) {
+          best = match
+        }
+      }
+    })
+    return best
+  }
+
+  private matchPhrase(command: RegisteredVoiceCommand, phrase: string, words: string[]): VoiceCommandMatch | null {
+    const wildcard = phrase.trimEnd().endsWith("*")
+    const phraseWords = stripFillers(normalizeWords(phrase))
+    const target = phraseWords.join("")
+    if (!target) return null
+
+    if (!wildcard) {
+      const distance = closeness(words, target, command.exact)
+      return distance === null ? null : { command, argument: undefined, distance }
+    }
+
+    // Recognizers may split or merge words, so the fixed part may cover one word more or less
+    let best: VoiceCommandMatch | null = null
+    for (let length = Math.max(1, phraseWords.length - 1); length <= phraseWords.length + 1; length++) {
+      if (length >= words.length) break
+
+      const distance = closeness(words.slice(0, length), target, command.exact)
+      if (distance === null || (best && distance >= best.distance)) continue
+
+      const rest = words.slice(length).join(" ")
+      const argument = command.parse(rest)
+      if (argument !== null) {
+        best = { command, argument, distance }
+      }
+    }
+    return best
+  }
+}
+
+export const SPEECH_RATE_RANGE = { min: 0.5, max: 2, step: 0.25 }
+export const VOLUME_RANGE = { min: 0.2, max: 1, step: 0.2 }
+
+/** Moves `value` one step up or down within `range`. */
+export function stepWithin(value: number, direction: 1 | -1, { min, max, step }: typeof SPEECH_RATE_RANGE) {
+  return Math.min(max, Math.max(min, Math.round((value + direction * step) * 100) / 100))
+}
+
+export interface BuiltInCommandActions {
+  /** Stops speaking and drops whatever was about to be said */
+  stop: () => void
+  /** The most recent reply, to say again */
+  lastReply: () => string | null
+  /** Speech rate as a multiple of the persona's */
+  speechRate: () => number
+  setSpeechRate: (rate: number) => void
+  /** Volume from 0 to 1 */
+  volume: () => number
+  setVolume: (volume: number) => void
+  setMuted: (muted: boolean) => void
+  newConversation: () => void
+  switchLanguage: (code: LanguageCode) => void
+}
+
+/** Stop, repeat, slower/faster, louder/quieter, mute/unmute, new conversation and language switching. */
+export function createBuiltInCommands(actions: BuiltInCommandActions): RegisteredVoiceCommand[] {
+  const changeRate = (direction: 1 | -1) => {
+    const current = actions.speechRate()
+    const rate = stepWithin(current, direction, SPEECH_RATE_RANGE)
+    if (rate === current) return direction > 0 ? "That's as fast as I can talk." : "That's as slow as I can talk."
+    actions.setSpeechRate(rate)
+    return direction > 0 ? "Okay, I'll speak faster." : "Okay, I'll speak slower."
+  }
+
+  const changeVolume = (direction: 1 | -1) => {
+    const current = actions.volume()
+    const volume = stepWithin(current, direction, VOLUME_RANGE)
+    if (volume === current) return direction > 0 ? "I'm already at full volume." : "That's as quiet as I go."
+    actions.setVolume(volume)
+    return direction > 0 ? "Is this better?" : "Okay, I'll speak more quietly."
+  }
+
+  const switchLanguage = defineCommand<LanguageCode>({
+    id: "switch-language",
+    phrases: ["switch to *", "switch language to *", "change language to *", "speak *", "speak in *", "talk in *", "reply in *"],
+    parse: findLanguageByName,
+    run: (code) => {
+      if (!code) return
+      actions.switchLanguage(code)
+      // Read with the new language's voice, so the switch can be heard
+      return `Okay, ${getLanguage(code).name.replace(/\s*\(.*\)/, "")}.`
+    },
+  })
+
+  const withoutArguments: VoiceCommand[] = [
+    {
+      id: "stop",
+      phrases: ["stop", "stop talking", "be quiet", "quiet", "shut up", "cancel", "never mind", "that's enough", "tama na", "tigil"],
+      run: () => actions.stop(),
+    },
+    {
+      id: "repeat",
+      phrases: ["repeat", "repeat that", "say that again", "come again", "what did you say", "pardon", "ulitin mo"],
+      run: () => actions.lastReply() ?? "I haven't said anything yet.",
+    },
+    {
+      id: "slower",
+      phrases: ["slower", "speak slower", "talk slower", "slow down", "more slowly", "speak more slowly"],
+      run: () => changeRate(-1),
+    },
+    { id: "faster", phrases: ["faster", "speak faster", "talk faster", "speed up", "hurry up"], run: () => changeRate(1) },
+    {
+      id: "louder",
+      phrases: ["louder", "speak louder", "speak up", "volume up", "turn it up", "I can't hear you"],
+      run: () => changeVolume(1),
+    },
+    {
+      id: "quieter",
+      phrases: ["quieter", "softer", "speak softer", "speak quieter", "volume down", "turn it down", "not so loud"],
+      run: () => changeVolume(-1),
+    },
+    { id: "mute", phrases: ["mute", "mute yourself", "go silent", "text only"], run: () => actions.setMuted(true) },
+    {
+      id: "unmute",
+      phrases: ["unmute", "sound on", "speak out loud", "talk to me again"],
+      run: () => {
+        actions.setMuted(false)
+        return "Okay, I'm speaking again."
+      },
+    },
+    {
+      id: "new-conversation",
+      phrases: ["new conversation", "start a new conversation", "start over", "reset", "forget everything", "clear the conversation"],
+      // Throws the conversation away, so "preset" or "restart" mustn't trigger it
+      exact: true,
+      run: () => actions.newConversation(),
+    },
+  ]
+
+  return [...withoutArguments.map((command) => defineCommand(command)), switchLanguage]
+}
@@ -0,0 +1,86 @@
+export type VoiceState = "idle" | "listening" | "processing" | "speaking"
+
+export type VoiceEvent =
+  | "START_LISTENING" // recognition started capturing audio
+  | "STOP_LISTENING" // recognition ended without producing a transcript
+  | "SUBMIT" // a transcript was handed to the assistant
+  | "RESPOND" // the assistant started speaking its reply
+  | "ANNOUNCE" // a timer or reminder went off; speak it unprompted
+  | "FINISH" // the turn completed (speech ended, or no speech was needed)
+  | "INTERRUPT" // the user talked over the assistant; go straight back to listening
+  | "FAIL" // something went wrong; drop back to idle
+  | "RESET" // abandon the current turn from any state
+
+type TransitionTable = Record<VoiceState, Partial<Record<VoiceEvent, VoiceState>>>
+
+const transitions: TransitionTable = {
+  idle: {
+    START_LISTENING: "listening",
+    SUBMIT: "processing",
+    ANNOUNCE: "speaking",
+    RESET: "idle",
+  },
+  listening: {
+    STOP_LISTENING: "idle",
+    SUBMIT: "processing",
+    FAIL: "idle",
+    RESET: "idle",
+  },
+  processing: {
+    RESPOND: "speaking",
+    INTERRUPT: "listening",
+    FINISH: "idle",
+    FAIL: "idle",
+    RESET: "idle",
+  },
+  speaking: {
+    INTERRUPT: "listening",
+    FINISH: "idle",
+    FAIL: "idle",
+    RESET: "idle",
+  },
+}
+
+export type VoiceStateListener = (state: VoiceState, previous: VoiceState, event: VoiceEvent) => void
+
+/**
+ * Guarded state machine for a voice turn. Events that are not valid in the current state are
+ * ignored, which keeps late browser callbacks (e.g. recognition `onend` after a result) from
+ * clobbering newer state.
+ */
+export class VoiceStateMachine {
+  private current: VoiceState
+  private listeners = new Set<VoiceStateListener>()
+
+  constructor(initial: VoiceState = "idle") {
+    this.current = initial
+  }
+
+  get state() {
+    return this.current
+  }
+
+  can(event: VoiceEvent) {
+    return transitions[this.current][event] !== undefined
+  }
+
+  /** Applies `event` and returns whether it caused a transition. */
+  send(event: VoiceEvent) {
+    const next = transitions[this.current][event]
+    if (next === undefined) return false
+
+    const previous = this.current
+    this.current = next
+    if (next !== previous) {
+      this.listeners.forEach((listener) => listener(next, previous, event))
+    }
+    return true
+  }
+
+  subscribe(listener: VoiceStateListener) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { editDistance, maxEditsFor, normalizeWords } from "@/lib/fuzzy-match"
+import type { SpeechInputEngine, SpeechInputResult } from "@/lib/speech-engine"
+
+export const DEFAULT_WAKE_PHRASE = process.env.NEXT_PUBLIC_WAKE_PHRASE || "Hey Gawin"
+
+export interface WakePhraseMatch {
+  /** Whatever followed the phrase, e.g. "what time is it" in "hey gawin what time is it" */
+  remainder: string
+}
+
+/**
+ * Looks for `phrase` anywhere in `transcript`, tolerating the small recognition errors and
+ * word splits that names tend to get ("gavin", "go in").
+ */
+export function matchWakePhrase(transcript: string, phrase: string): WakePhraseMatch | null {
+  const words = normalizeWords(transcript)
+  const target = normalizeWords(phrase).join("")
+  if (!target) return null
+
+  const maxEdits = maxEditsFor(target)
+  const phraseLength = normalizeWords(phrase).length
+
+  for (let start = 0; start < words.length; start++) {
+    // Recognizers may split or merge words, so try windows around the phrase's word count
+    for (let length = Math.max(1, phraseLength - 1); length <= phraseLength + 1; length++) {
+      if (start + length > words.length) break
+
+      const candidate = words.slice(start, start + length).join("")
+      if (editDistance(candidate, target) <= maxEdits) {
+        return { remainder: words.slice(start + length).join(" ") }
+      }
+    }
+  }
+
+  return null
+}
+
+export interface WakeWordListenerOptions {
+  phrase?: string
+  lang?: string
+  /** Called once per detection; the listener stops itself before calling */
+  onWake: (match: WakePhraseMatch) => void
+}
+
+/**
+ * Passive, continuous recognizer that only watches for the wake phrase. `engine` must be a
+ * streaming one and not shared with the session. Browsers allow one active recognizer at a
+ * time, so the listener must be stopped (and `stop()` awaited) before the voice session starts
+ * its own.
+ */
+export class WakeWordListener {
+  private enabled = false
+  private ended: Promise<void> = Promise.resolve()
+  private resolveEnded: (() => void) | null = null
+
+  constructor(
+    private engine: SpeechInputEngine,
+    private options: WakeWordListenerOptions,
+  ) {}
+
+  get isRunning() {
+    return this.enabled
+  }
+
+  start() {
+    if (this.enabled) return
+    this.enabled = true
+    this.ended.then(() => this.startRecognition())
+  }
+
+  /** Resolves once the underlying recognizer has released the microphone. */
+  stop() {
+    this.enabled = false
+    this.engine.abort()
+    return this.ended
+  }
+
+  private startRecognition() {
+    if (!this.enabled) return
+
+    const onResult = (results: SpeechInputResult[], changedIndex: number) => {
+      for (const result of results.slice(changedIndex)) {
+        const match = matchWakePhrase(result.transcript, this.options.phrase ?? DEFAULT_WAKE_PHRASE)
+        // Wait for the final result when it may still carry a request after the phrase
+        if (match && (result.isFinal || !match.remainder)) {
+          this.stop().then(() => this.options.onWake(match))
+          return
+        }
+      }
+    }
+
+    const onError = (error: string) => {
+      // Denied permission will not fix itself; stop instead of retrying forever
+      if (error === "not-allowed" || error === "service-not-allowed") {
+        console.error("Wake word listening was blocked:", error)
+        this.enabled = false
+      }
+    }
+
+    // Continuous recognition still ends on its own (silence, network); keep it going while enabled
+    const onEnd = () => {
+      this.resolveEnded?.()
+      this.resolveEnded = null
+      if (this.enabled) {
+        this.startRecognition()
+      }
+    }
+
+    this.ended = new Promise((resolve) => {
+      this.resolveEnded = resolve
+    })
+
+    try {
+      this.engine.start(
+        { lang: this.options.lang ?? "en-US", continuous: true, interimResults: true },
+        { onResult, onError, onEnd },
+      )
+    } catch (error) {
+      console.error("Failed to start wake word listening:", error)
+      this.enabled = false
+      this.resolveEnded?.()
+    }
+  }
+}
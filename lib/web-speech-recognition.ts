@@ -0,0 +1,80 @@
+import type { SpeechEngineKind, SpeechInputEngine, SpeechInputHandlers, SpeechInputSettings } from "./speech-engine"
+
+// The parts of the Web Speech API's recognizer used here; TypeScript's DOM library doesn't declare it
+interface BrowserSpeechRecognition {
+  lang: string
+  continuous: boolean
+  interimResults: boolean
+  onstart: (() => void) | null
+  onresult: ((event: BrowserSpeechRecognitionEvent) => void) | null
+  onerror: ((event: { error: string }) => void) | null
+  onend: (() => void) | null
+  start(): void
+  stop(): void
+  abort(): void
+}
+
+interface BrowserSpeechRecognitionEvent {
+  resultIndex: number
+  results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }>
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition?: new () => BrowserSpeechRecognition
+    webkitSpeechRecognition?: new () => BrowserSpeechRecognition
+  }
+}
+
+/** Speech input through the browser's own recognizer (Chrome, Edge, Safari). */
+export class WebSpeechRecognition implements SpeechInputEngine {
+  static isSupported() {
+    return typeof window !== "undefined" && Boolean(window.SpeechRecognition || window.webkitSpeechRecognition)
+  }
+
+  readonly kind: SpeechEngineKind = "browser"
+  readonly streaming = true
+
+  private recognition: BrowserSpeechRecognition | null = null
+
+  start(settings: SpeechInputSettings, handlers: SpeechInputHandlers) {
+    if (this.recognition) {
+      throw new Error("Recognition has already started")
+    }
+
+    const Recognition = (window.SpeechRecognition || window.webkitSpeechRecognition)!
+    const recognition = new Recognition()
+    recognition.lang = settings.lang
+    recognition.continuous = settings.continuous
+    recognition.interimResults = settings.interimResults
+
+    recognition.onstart = () => handlers.onStart?.()
+    recognition.onresult = (event) => {
+      const results = Array.from(event.results, (result) => ({ transcript: result[0].transcript, isFinal: result.isFinal }))
+      handlers.onResult?.(results, event.resultIndex)
+    }
+    recognition.onerror = (event) => handlers.onError?.(event.error)
+    recognition.onend = () => {
+      if (this.recognition === recognition) {
+        this.recognition = null
+      }
+      handlers.onEnd?.()
+    }
+
+    this.recognition = recognition
+    try {
+      recognition.start()
+    } catch (error) {
+      this.recognition = null
+      throw error
+    }
+  }
+
+  stop() {
+    this.recognition?.stop()
+  }
+
+  abort() {
+    this.recognition?.abort()
+  }
+}
@@ -1,3 +1,7 @@
+// Sites allowed to embed the widget at /embed, space separated; only this deployment when unset,
+// so each deployment lists the host sites it trusts
+const embedAncestors = process.env.EMBED_ALLOWED_ORIGINS || "'self'"
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   eslint: {
@@ -9,6 +13,17 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  experimental: {
+    instrumentationHook: true,
+  },
+  async headers() {
+    return [
+      {
+        source: "/embed",
+        headers: [{ key: "Content-Security-Policy", value: `frame-ancestors ${embedAncestors}` }],
+      },
+    ]
+  },
 }
 
 export default nextConfig
\ No newline at end of file
@@ -0,0 +1,114 @@
+// Adds Gawin to any page as a floating widget:
+//
+//   <script src="https://your-gawin-deployment/embed.js" data-persona="guro" data-language="fil-PH" async></script>
+//
+// The widget runs in an iframe served from the Gawin deployment. The host page drives it
+// through `window.Gawin` and hears back through `gawin:*` events on `window`.
+;(() => {
+  const READY_TIMEOUT_MS = 15000
+
+  /** Accepts only an absolute http(s) origin, optionally with a trailing slash. */
+  const parseOrigin = (value) => {
+    try {
+      const url = new URL(value)
+      const isHttp = url.protocol === "https:" || url.protocol === "http:"
+      return isHttp && url.origin === value.replace(/\/$/, "") ? url.origin : null
+    } catch {
+      return null
+    }
+  }
+
+  const script = document.currentScript
+  if (!script || window.Gawin) return
+
+  const { persona, language, position, context, endpoint } = script.dataset
+  // The deployment to talk to; defaults to wherever this script was loaded from
+  const origin = endpoint ? parseOrigin(endpoint) : new URL(script.src).origin
+  if (!origin) {
+    console.error(
+      `Gawin: data-endpoint must be the deployment's origin, such as "https://gawin.example.com", but is "${endpoint}". The widget was not added.`,
+    )
+    return
+  }
+
+  const params = new URLSearchParams({ origin: location.origin })
+  if (persona) params.set("persona", persona)
+  if (language) params.set("language", language)
+  if (position) params.set("position", position)
+
+  const frame = document.createElement("iframe")
+  frame.src = `${origin}/embed?${params}`
+  frame.title = "Gawin voice assistant"
+  frame.allow = "microphone; autoplay"
+  Object.assign(frame.style, {
+    position: "fixed",
+    bottom: "16px",
+    [position === "left" ? "left" : "right"]: "16px",
+    width: "96px",
+    height: "96px",
+    border: "0",
+    background: "transparent",
+    colorScheme: "normal",
+    zIndex: "2147483000",
+  })
+
+  // Commands sent before the widget has loaded wait for its ready event
+  let ready = false
+  const pending = []
+
+  // A deployment that doesn't list this page in EMBED_ALLOWED_ORIGINS leaves the frame blank without an error of its own
+  const readyTimeout = setTimeout(() => {
+    console.error(
+      `Gawin: the widget at ${origin} did not load. Check that data-endpoint is right and that ${location.origin} is listed in that deployment's EMBED_ALLOWED_ORIGINS.`,
+    )
+  }, READY_TIMEOUT_MS)
+
+  const post = (message) => {
+    if (ready) {
+      frame.contentWindow.postMessage(message, origin)
+    } else {
+      pending.push(message)
+    }
+  }
+
+  window.addEventListener("message", (event) => {
+    if (event.source !== frame.contentWindow || event.origin !== origin) return
+    const { type, ...detail } = event.data ?? {}
+    if (typeof type !== "string" || !type.startsWith("gawin:")) return
+
+    if (type === "gawin:ready") {
+      ready = true
+      clearTimeout(readyTimeout)
+      pending.splice(0).forEach(post)
+    } else if (type === "gawin:resize") {
+      frame.style.width = `${detail.width}px`
+      frame.style.height = `${detail.height}px`
+    }
+    window.dispatchEvent(new CustomEvent(type, { detail }))
+  })
+
+  window.Gawin = {
+    startListening: () => post({ type: "gawin:start-listening" }),
+    stopListening: () => post({ type: "gawin:stop-listening" }),
+    /** Asks a question as if it had been typed */
+    send: (text) => post({ type: "gawin:send", text }),
+    /** Background sent with every question, e.g. what the user is looking at; "" clears it */
+    setContext: (context) => post({ type: "gawin:set-context", context }),
+    stopSpeaking: () => post({ type: "gawin:stop-speaking" }),
+    newConversation: () => post({ type: "gawin:new-conversation" }),
+    /** Calls `listener` with each "ready", "state", "transcript" or "resize" event; returns an unsubscribe function */
+    on: (name, listener) => {
+      const handler = (event) => listener(event.detail)
+      window.addEventListener(`gawin:${name}`, handler)
+      return () => window.removeEventListener(`gawin:${name}`, handler)
+    },
+  }
+
+  if (context) window.Gawin.setContext(context)
+
+  if (document.body) {
+    document.body.appendChild(frame)
+  } else {
+    document.addEventListener("DOMContentLoaded", () => document.body.appendChild(frame))
+  }
+})()
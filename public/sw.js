@@ -0,0 +1,75 @@
+// Caches the app shell so the page, and the cube, still load without a connection.
+// Bump the version when the caching rules change; old caches are deleted on activation.
+const CACHE = "gawin-shell-v1"
+const SHELL = ["/"]
+
+// drei's environment maps are pinned to a commit, so they never change
+const PINNED_ASSET = /\/pmndrs\/drei-assets\//
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll(SHELL))
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(CACHE)
+    cache.put(request, response.clone())
+  }
+  return response
+}
+
+// Pages are fetched fresh when possible so deploys show up, and served from cache otherwise
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const cache = await caches.open(CACHE)
+      cache.put(request, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = (await caches.match(request)) ?? (request.mode === "navigate" ? await caches.match("/") : undefined)
+    if (cached) return cached
+    throw error
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  if (request.method !== "GET") return
+
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) {
+    if (PINNED_ASSET.test(url.pathname)) event.respondWith(cacheFirst(request))
+    return
+  }
+
+  // API responses are per request and must never come from a cache
+  if (url.pathname.startsWith("/api/")) return
+
+  // Build output is content-hashed, so a cached copy is always current
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request))
+    return
+  }
+
+  event.respondWith(networkFirst(request))
+})